@@ -7,14 +7,30 @@ import {
   ChevronDown, Package, Printer, Camera, Aperture, Plus, FolderArchive,
   Scan, ChevronLeft, ChevronRight, Paintbrush, Wand2,
   Image, Palette, Settings2, CircleDot, Compass, Sunset, Building, 
-  TreePine, Warehouse, Menu, X, Info, ShieldCheck, Mail
+  TreePine, Warehouse, Menu, X, Info, ShieldCheck, Mail, LifeBuoy, Tag, Clock, Wrench, Undo2, AlertTriangle
 } from 'lucide-react';
 import { 
   ArtStyle, BackgroundTheme, StanceStyle, 
-  VehicleAnalysis, FidelityMode, PositionMode 
+  VehicleAnalysis, FidelityMode, PositionMode, FidelityIssue,
+  ArtFormat, ProductTierId
 } from './types';
-import { analyzeVehicle, generateArt, generateRemainingFormats, generateArtSet, fileToGenerativePart, GeneratedArtSet } from './services/geminiService';
-import { redirectToCheckout, verifyPayment, checkPaymentStatus, clearPaymentParams } from './services/stripeService';
+import { 
+  analyzeVehicle, generateArt, generateRemainingFormats, fetchArtFile, fileToGenerativePart, GeneratedArtSet,
+  createArtSession, getArtSession, followGenerationJob, RenderMode, PreviewCandidate, refineArt
+} from './services/geminiService';
+import { 
+  redirectToCheckout, verifyPayment, checkPaymentStatus, clearPaymentParams,
+  recoverPack, RecoveryRequest, checkPromoCode, PromoCheck
+} from './services/stripeService';
+import { readStaffToken, validateStaffToken } from './services/staffService';
+import { 
+  getProducts, ProductCatalog, DEFAULT_TIER_ID 
+} from './services/productService';
+import { 
+  getCredits, getStoredCreditToken, storeCreditToken, formatPrice, CreditPackOffer 
+} from './services/creditService';
+import { getRetryAfter } from './services/apiError';
+import { getHealth } from './services/healthService';
 
 // ============ HAPTIC FEEDBACK UTILITY ============
 const haptic = {
@@ -37,6 +53,7 @@ enum Step {
   GENERATING = 4,
   PREVIEW = 5,
   COMPLETE = 6,
+  RECOVER = 7,
 }
 
 // Sub-steps within CUSTOMIZE for progressive disclosure
@@ -367,6 +384,176 @@ const SCENES = [
   { id: BackgroundTheme.GARAGE, name: 'Garage', icon: Warehouse, gradient: 'from-zinc-700 via-zinc-600 to-zinc-500' },
 ];
 
+// Icons for the product formats (labels and ratios come from the catalog)
+const FORMAT_ICONS: Record<ArtFormat, typeof Smartphone> = {
+  phone: Smartphone,
+  desktop: Monitor,
+  print: Printer,
+  'print-square': Printer,
+  'print-poster': Printer,
+};
+
+// Previews generated per CREATE ART - more than one shows the picker, but each
+// is another Gemini render (and audit) and counts against the rate limit
+const PREVIEW_CANDIDATES = 1;
+
+// "print-square" → "Print-Square" for download file names
+const formatFileLabel = (format: ArtFormat): string =>
+  format.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join('-');
+
+// Each format carries its own type - older sets only have one for all
+const getFormatMimeType = (set: GeneratedArtSet, format: ArtFormat): string =>
+  set.mimeTypes?.[format] || set.mimeType || 'image/png';
+
+// ============ RATE LIMIT COOLDOWN ============
+const CooldownNotice: React.FC<{ seconds: number }> = ({ seconds }) => (
+  <div className="flex items-center gap-3 mx-auto mb-6 max-w-md px-4 py-3 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-left">
+    <Clock size={18} className="text-amber-500 shrink-0" />
+    <p className="text-xs text-zinc-300 font-medium">
+      You're creating fast! Take a breather - you can try again in{' '}
+      <span className="font-bold text-white tabular-nums">
+        {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, '0')}
+      </span>
+    </p>
+  </div>
+);
+
+// ============ MAINTENANCE ============
+const MaintenanceNotice: React.FC = () => (
+  <div className="flex items-center gap-3 mx-auto mb-6 max-w-md px-4 py-3 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-left">
+    <Wrench size={18} className="text-amber-500 shrink-0" />
+    <p className="text-xs text-zinc-300 font-medium">
+      The studio is down for maintenance. We'll be back shortly - please check again in a few minutes.
+    </p>
+  </div>
+);
+
+// ============ FIDELITY ============
+// Hard-rule violations the server's audit couldn't get rid of (invented tyre lettering, extra cargo...)
+const FidelityNotice: React.FC<{ issues: FidelityIssue[]; hint: string }> = ({ issues, hint }) => (
+  <div className="flex gap-3 mx-auto max-w-md px-4 py-3 rounded-2xl bg-amber-500/10 border border-amber-500/20 text-left">
+    <AlertTriangle size={18} className="text-amber-500 shrink-0 mt-0.5" />
+    <div className="text-xs text-zinc-300 font-medium space-y-1">
+      <p>Our quality check spotted details that may not match your photo:</p>
+      <ul className="list-disc pl-4 text-zinc-400">
+        {[...new Set(issues.map(issue => issue.description))].map(description => (
+          <li key={description}>{description}</li>
+        ))}
+      </ul>
+      <p className="text-zinc-500">{hint}</p>
+    </div>
+  </div>
+);
+
+// ============ PREVIEW CANDIDATES ============
+// Swipe and tap to choose which render to keep - blurred behind the paywall like the preview itself
+const CandidatePicker: React.FC<{
+  candidates: PreviewCandidate[];
+  selected: string | null;
+  onSelect: (art: string) => void;
+  blurred?: boolean;
+}> = ({ candidates, selected, onSelect, blurred = false }) => (
+  <div>
+    <p className="text-[10px] font-extrabold text-zinc-500 text-center mb-3 uppercase tracking-[0.2em]">
+      Pick Your Favorite · {candidates.findIndex(candidate => candidate.data === selected) + 1} of {candidates.length}
+    </p>
+    <div className="flex gap-3 overflow-x-auto snap-x snap-mandatory pb-2 justify-center">
+      {candidates.map((candidate, index) => (
+        <button
+          key={index}
+          onClick={() => { haptic.light(); onSelect(candidate.data); }}
+          className={`shrink-0 snap-center w-20 aspect-[9/19.5] rounded-2xl overflow-hidden border-2 transition-all active:scale-95 ${
+            candidate.data === selected ? 'border-amber-500 shadow-lg shadow-amber-500/20' : 'border-white/5 opacity-60'
+          }`}
+        >
+          <img
+            src={`data:${candidate.mimeType};base64,${candidate.data}`}
+            className={`w-full h-full object-cover ${blurred ? 'blur-[3px] scale-110' : ''}`}
+            alt={`Option ${index + 1}`}
+          />
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+// ============ REFINEMENT ============
+interface Revision {
+  art: string;                  // Base64 - the preview before this edit
+  instruction: string;          // The edit that replaced it
+}
+
+const MAX_INSTRUCTION_LENGTH = 300;
+
+const RefinementPanel: React.FC<{
+  revisions: Revision[];
+  instruction: string;
+  onInstructionChange: (instruction: string) => void;
+  onRefine: () => void;
+  onUndo: () => void;
+  isRefining: boolean;
+  cooldownSeconds: number;
+  error: string | null;
+}> = ({ revisions, instruction, onInstructionChange, onRefine, onUndo, isRefining, cooldownSeconds, error }) => (
+  <div className="liquid-glass rounded-[2rem] p-5 text-left">
+    <div className="flex items-center justify-between mb-3">
+      <p className="text-[10px] font-extrabold text-zinc-500 uppercase tracking-[0.2em]">Refine Your Art</p>
+      {revisions.length > 0 && (
+        <button
+          onClick={onUndo}
+          disabled={isRefining}
+          className="flex items-center gap-1.5 text-[10px] font-bold text-zinc-400 hover:text-white uppercase tracking-widest transition-colors disabled:opacity-40"
+        >
+          <Undo2 size={12} />
+          Undo
+        </button>
+      )}
+    </div>
+
+    {revisions.length > 0 && (
+      <ol className="mb-3 space-y-1">
+        {revisions.map((revision, index) => (
+          <li key={index} className="flex items-center gap-2 text-xs text-zinc-400">
+            <Check size={12} className="text-amber-500 shrink-0" />
+            <span className="truncate">{revision.instruction}</span>
+          </li>
+        ))}
+      </ol>
+    )}
+
+    {cooldownSeconds > 0 && <CooldownNotice seconds={cooldownSeconds} />}
+
+    <form
+      onSubmit={(e) => { e.preventDefault(); onRefine(); }}
+      className="flex gap-2"
+    >
+      <input
+        type="text"
+        value={instruction}
+        onChange={(e) => onInstructionChange(e.target.value)}
+        maxLength={MAX_INSTRUCTION_LENGTH}
+        placeholder='e.g. "remove the bike rack"'
+        disabled={isRefining}
+        className="flex-1 min-w-0 h-11 px-4 rounded-xl bg-white/5 border border-white/10 text-sm text-white placeholder:text-zinc-600 focus:outline-none focus:border-amber-500/50"
+      />
+      <button
+        type="submit"
+        disabled={isRefining || cooldownSeconds > 0 || !instruction.trim()}
+        className="h-11 px-4 rounded-xl bg-amber-500 text-black font-bold text-xs uppercase tracking-widest flex items-center gap-2 disabled:opacity-40 active:scale-95 transition-all"
+      >
+        {isRefining ? (
+          <div className="w-4 h-4 border-2 border-black/30 border-t-black rounded-full animate-spin" />
+        ) : (
+          <Wand2 size={14} />
+        )}
+        Apply
+      </button>
+    </form>
+
+    {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+  </div>
+);
+
 // ============ SHOWCASE DATA ============
 // Images are in /public/showcase/ folder
 const SHOWCASE_DATA = [
@@ -424,6 +611,13 @@ const App: React.FC = () => {
   // Data
   const [analysis, setAnalysis] = useState<VehicleAnalysis | null>(null);
   const [previewArt, setPreviewArt] = useState<string | null>(null);
+  const [previewCandidates, setPreviewCandidates] = useState<PreviewCandidate[]>([]);  // previewArt is the chosen one
+  
+  // Refinement - every applied edit keeps the art it replaced (newest last) for undo
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [refineInstruction, setRefineInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
   const [artSet, setArtSet] = useState<GeneratedArtSet | null>(null);
   const [statusMessage, setStatusMessage] = useState("");
   
@@ -442,8 +636,45 @@ const App: React.FC = () => {
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   
-  // DEV MODE - bypass paywall with ?dev=1
-  const isDevMode = new URLSearchParams(window.location.search).get('dev') === '1';
+  // Product tiers (phone-only, full pack, print pack)
+  const [products, setProducts] = useState<ProductCatalog | null>(null);
+  const [selectedTierId, setSelectedTierId] = useState<ProductTierId>(DEFAULT_TIER_ID);
+  const selectedTier = products?.tiers.find(tier => tier.id === selectedTierId);
+  
+  // Credit packs (multi-vehicle bundles)
+  const [creditToken, setCreditToken] = useState<string | null>(getStoredCreditToken());
+  const [creditBalance, setCreditBalance] = useState<number | null>(null);
+  const [creditPacks, setCreditPacks] = useState<CreditPackOffer[]>([]);
+  
+  // Promo / campaign code on the paywall
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoCheck | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+  
+  // Pack recovery (when fulfilment after payment fails)
+  const [recoveryEmail, setRecoveryEmail] = useState('');
+  const [recoveryOrderRef, setRecoveryOrderRef] = useState('');
+  const [recoveryToken, setRecoveryToken] = useState<string | null>(null);
+  const [recoveryError, setRecoveryError] = useState<string | null>(null);
+  
+  // Rate limit cooldown (429 from the AI routes) - seconds left, ticks down to 0
+  const [cooldownSeconds, setCooldownSeconds] = useState(0);
+  const isCoolingDown = cooldownSeconds > 0;
+  
+  useEffect(() => {
+    if (!isCoolingDown) return;
+    const timer = setTimeout(() => setCooldownSeconds(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldownSeconds]);
+  
+  // Server can't complete a purchase right now (/api/health) - uploads are blocked
+  const [isUnderMaintenance, setIsUnderMaintenance] = useState(false);
+  
+  // STAFF MODE - signed token from /api/dev-token, passed once as ?dev_token=
+  const [staffToken, setStaffToken] = useState<string | null>(null);
+  // Staff can render the same art session in both modes to compare them
+  const [devRenderMode, setDevRenderMode] = useState<RenderMode>('regenerate');
   
   // DEMO MODE - clean interface for recording content
   // Activated by: ?demo=1 OR /cx path OR localStorage flag OR Easter Egg (5 taps on logo)
@@ -495,13 +726,61 @@ const App: React.FC = () => {
     }, 3000);
   };
 
+  // Staff controls only appear once the server accepts the token
+  useEffect(() => {
+    const token = readStaffToken();
+    if (token) {
+      validateStaffToken(token).then(valid => setStaffToken(valid ? token : null));
+    }
+  }, []);
+
+  // Load credit pack offers and the current balance
+  const refreshCredits = (token: string | null = creditToken) => {
+    getCredits(token)
+      .then(({ packs, balance }) => {
+        setCreditPacks(packs);
+        setCreditBalance(balance);
+      })
+      .catch(err => console.error('Credits error:', err));
+  };
+
+  useEffect(() => refreshCredits(), [creditToken]);
+
+  // An unreachable health check doesn't block - the upload itself will surface the error
+  useEffect(() => {
+    getHealth()
+      .then(health => setIsUnderMaintenance(!health.ready))
+      .catch(err => console.error('Health check error:', err));
+  }, []);
+
+  useEffect(() => {
+    getProducts()
+      .then((catalog) => {
+        setProducts(catalog);
+        // Standard pack not on sale - preselect the first tier that is
+        if (!catalog.tiers.some(tier => tier.id === DEFAULT_TIER_ID) && catalog.tiers[0]) {
+          setSelectedTierId(catalog.tiers[0].id);
+        }
+      })
+      .catch(err => console.error('Products error:', err));
+  }, []);
+
   // Check for payment return on mount
   useEffect(() => {
-    const { sessionId, cancelled } = checkPaymentStatus();
+    const { sessionId, cancelled, artSessionId, recoveryToken: recoverLinkToken } = checkPaymentStatus();
     if (sessionId) handlePaymentReturn(sessionId);
+    else if (recoverLinkToken) {
+      clearPaymentParams();
+      setRecoveryToken(recoverLinkToken);
+      handleRecover({ token: recoverLinkToken });
+    }
     else if (cancelled) {
       clearPaymentParams();
-      setStep(Step.PREVIEW);
+      if (artSessionId) {
+        restoreArtSession(artSessionId)
+          .then(() => setStep(Step.PREVIEW))
+          .catch(err => console.error('Restore error:', err));
+      }
     }
   }, []);
 
@@ -536,82 +815,110 @@ const App: React.FC = () => {
     }
   }, [step, analysis]);
 
+  // Restore photo, settings and preview from the server-side art session
+  const restoreArtSession = async (artSessionId: string) => {
+    const artSession = await getArtSession(artSessionId);
+    const { params } = artSession;
+    setImageBase64(artSession.sourceImage);
+    setAnalysis(params.analysis);
+    setBackground(params.background);
+    setPosition(params.position);
+    setFidelity(params.fidelity);
+    setStance(params.stance);
+    setSelectedMods(params.selectedMods || []);
+    setCustomCity(params.customCity || '');
+    setPreviewArt(artSession.previewArt);
+    setPreviewCandidates([]);
+    setRevisions([]);
+    (window as any).__lastArtMimeType = artSession.previewMimeType;
+  };
+
   const handlePaymentReturn = async (sessionId: string) => {
     setIsProcessingPayment(true);
     setStatusMessage("Verifying payment...");
     setStep(Step.GENERATING);
     
+    setRecoveryOrderRef(sessionId);
+    
     try {
       const result = await verifyPayment(sessionId);
       clearPaymentParams();
+      if (result.customerEmail) setRecoveryEmail(result.customerEmail);
+      if (result.recoveryToken) setRecoveryToken(result.recoveryToken);
+      if (result.creditToken) {
+        storeCreditToken(result.creditToken);
+        setCreditToken(result.creditToken);
+      }
       
-      if (result.success) {
-        const savedState = localStorage.getItem('garagecanvas_pending_art');
-        if (savedState) {
-          const state = JSON.parse(savedState);
-          setImageBase64(state.imageBase64);
-          setAnalysis(state.analysis);
-          setBackground(state.background);
-          setPosition(state.position);
-          setFidelity(state.fidelity);
-          setStance(state.stance);
-          setSelectedMods(state.selectedMods || []);
-          
-          const existingPreview = state.previewArt;
-          
-          if (existingPreview) {
-            setStatusMessage("Creating remaining formats...");
-            const set = await generateRemainingFormats(
-              state.imageBase64, 
-              existingPreview,
-              state.analysis, 
-              ArtStyle.POSTER, 
-              state.background, 
-              state.fidelity || FidelityMode.CLEAN_BUILD, 
-              state.position || PositionMode.AS_PHOTOGRAPHED,
-              state.stance || StanceStyle.STOCK, 
-              state.selectedMods || [],
-              (progress) => setStatusMessage(progress),
-              state.customCity || undefined
-            );
-            setArtSet(set);
-          } else {
-            setStatusMessage("Creating all formats...");
-            const set = await generateArtSet(
-              state.imageBase64, 
-              state.analysis, 
-              ArtStyle.POSTER, 
-              state.background, 
-              state.fidelity || FidelityMode.CLEAN_BUILD, 
-              state.position || PositionMode.AS_PHOTOGRAPHED,
-              state.stance || StanceStyle.STOCK, 
-              state.selectedMods || [],
-              (progress) => setStatusMessage(progress),
-              state.customCity || undefined
-            );
-            setArtSet(set);
-          }
-          
-          setPreviewArt(existingPreview);
-          setHasPaid(true);
-          setStep(Step.COMPLETE);
-          localStorage.removeItem('garagecanvas_pending_art');
-        }
-      } else {
+      const artSessionId = result.metadata?.artSessionId;
+      if (!result.success || !artSessionId) {
         throw new Error('Payment not verified');
       }
-    } catch (error) {
+
+      setStatusMessage("Loading your artwork...");
+      await restoreArtSession(artSessionId);
+
+      // Credit bundle purchases unlock this artwork with the first credit
+      const isCreditPurchase = result.metadata?.kind === 'credits';
+      if (isCreditPurchase && !result.creditToken) {
+        throw new Error('Credits could not be added to your account');
+      }
+
+      setStatusMessage("Creating remaining formats...");
+      const set = await generateRemainingFormats(
+        isCreditPurchase
+          ? { artSessionId, creditToken: result.creditToken! }
+          : { sessionId: result.sessionId, artSessionId },
+        (progress) => setStatusMessage(progress)
+      );
+      if (isCreditPurchase) refreshCredits(result.creditToken);
+      setArtSet(set);
+      setHasPaid(true);
+      setStep(Step.COMPLETE);
+    } catch (error: any) {
       console.error('Payment error:', error);
-      alert('Payment verification failed. Please contact support.');
-      setStep(Step.PREVIEW);
+      clearPaymentParams();
+      // Paid work is never lost - send the customer to self-service recovery
+      setRecoveryError(error.message || 'We could not finish your pack.');
+      setStep(Step.RECOVER);
     } finally {
       setIsProcessingPayment(false);
     }
   };
 
+  // Recover a paid pack by email + order reference, or by recovery link
+  const handleRecover = async (request: RecoveryRequest) => {
+    setRecoveryError(null);
+    setStatusMessage("Finding your order...");
+    setStep(Step.GENERATING);
+    
+    try {
+      const recovery = await recoverPack(request);
+      if (recovery.recoveryToken) setRecoveryToken(recovery.recoveryToken);
+      if (recovery.creditToken) {
+        storeCreditToken(recovery.creditToken);
+        setCreditToken(recovery.creditToken);
+      }
+      
+      setStatusMessage("Loading your artwork...");
+      await restoreArtSession(recovery.artSessionId);
+      
+      const set = await followGenerationJob(recovery.jobId, (progress) => setStatusMessage(progress));
+      setArtSet({ ...set, mimeType: set.mimeType || 'image/png' });
+      setHasPaid(true);
+      haptic.success();
+      setStep(Step.COMPLETE);
+    } catch (err: any) {
+      console.error('Recovery error:', err);
+      haptic.error();
+      setRecoveryError(err.message || 'Recovery failed. Please try again.');
+      setStep(Step.RECOVER);
+    }
+  };
+
   const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
+    if (!file || isUnderMaintenance) return;
     
     haptic.light(); // Haptic on file select
     
@@ -626,6 +933,8 @@ const App: React.FC = () => {
       
       setImageBase64(base64);
       setPreviewArt(null);
+      setPreviewCandidates([]);
+      setRevisions([]);
       setArtSet(null);
       setHasPaid(false);
       setSelectedMods([]);
@@ -640,7 +949,9 @@ const App: React.FC = () => {
         console.error('Analysis error:', err);
         haptic.error(); // Haptic on error
         setStep(Step.UPLOAD);
-        alert("Couldn't analyze that image. Try a clearer photo.");
+        const retryAfter = getRetryAfter(err);
+        if (retryAfter) setCooldownSeconds(retryAfter);
+        else alert("Couldn't analyze that image. Try a clearer photo.");
       }
     } catch (err) {
       console.error('File processing error:', err);
@@ -654,41 +965,106 @@ const App: React.FC = () => {
   };
 
   const handleGenerate = async () => {
-    if (!imageBase64 || !analysis) return;
+    if (!imageBase64 || !analysis || isCoolingDown) return;
     haptic.light(); // Haptic on button press
     setStep(Step.GENERATING);
     setStatusMessage("Creating your artwork...");
     
     try {
-      const art = await generateArt(
+      const candidates = await generateArt(
         imageBase64, analysis, ArtStyle.POSTER, background, 
         fidelity, position, stance, selectedMods,
-        background === BackgroundTheme.CITY ? customCity : undefined
+        background === BackgroundTheme.CITY ? customCity : undefined,
+        PREVIEW_CANDIDATES
       );
-      setPreviewArt(art);
+      setPreviewCandidates(candidates);
+      setRevisions([]);
+      setPreviewArt(candidates[0].data);
       haptic.success(); // Haptic on art complete!
       setStep(Step.PREVIEW);
     } catch (err) {
       console.error('Generation error:', err);
       haptic.error();
       setStep(Step.CUSTOMIZE);
-      alert("Generation failed. Please try again.");
+      const retryAfter = getRetryAfter(err);
+      if (retryAfter) setCooldownSeconds(retryAfter);
+      else alert("Generation failed. Please try again.");
     }
   };
 
-  const handlePurchase = async () => {
+  // Apply a free-text edit to the current preview - the replaced art goes on the undo stack
+  const handleRefine = async () => {
+    const instruction = refineInstruction.trim();
+    if (!imageBase64 || !previewArt || !instruction || isRefining || isCoolingDown) return;
+    haptic.light();
+    setIsRefining(true);
+    setRefineError(null);
+    
+    try {
+      const refined = await refineArt(imageBase64, previewArt, instruction);
+      setRevisions(history => [...history, { art: previewArt, instruction }]);
+      setPreviewArt(refined.data);
+      (window as any).__lastArtMimeType = refined.mimeType;
+      setRefineInstruction('');
+      haptic.success();
+    } catch (err: any) {
+      console.error('Refinement error:', err);
+      haptic.error();
+      const retryAfter = getRetryAfter(err);
+      if (retryAfter) setCooldownSeconds(retryAfter);
+      else setRefineError(err.message || 'Edit failed. Please try again.');
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleUndoRefine = () => {
+    const last = revisions[revisions.length - 1];
+    if (!last || isRefining) return;
+    setPreviewArt(last.art);
+    setRevisions(history => history.slice(0, -1));
+  };
+
+  // Audit flags of the chosen candidate - a refined preview is no longer that candidate
+  const previewIssues = previewCandidates.find(candidate => candidate.data === previewArt)?.fidelityIssues || [];
+
+  // Same panel under the preview in demo and paywalled mode
+  const refinementPanel = (
+    <RefinementPanel
+      revisions={revisions}
+      instruction={refineInstruction}
+      onInstructionChange={setRefineInstruction}
+      onRefine={handleRefine}
+      onUndo={handleUndoRefine}
+      isRefining={isRefining}
+      cooldownSeconds={cooldownSeconds}
+      error={refineError}
+    />
+  );
+
+  // Store photo, params and preview server-side for fulfilment after checkout
+  const saveArtSession = () => createArtSession({
+    image: imageBase64!,
+    previewArt: previewArt!,
+    previewMimeType: (window as any).__lastArtMimeType,
+    analysis: analysis!, style: ArtStyle.POSTER, background, fidelity, position, stance, selectedMods,
+    customCity: background === BackgroundTheme.CITY ? customCity : undefined
+  });
+
+  const handlePurchase = async (creditPackId?: string) => {
     if (!imageBase64 || !analysis || !previewArt) return;
     setIsProcessingPayment(true);
     
     try {
-      localStorage.setItem('garagecanvas_pending_art', JSON.stringify({
-        imageBase64, analysis, background, fidelity, position, stance, selectedMods,
-        previewArt, customCity
-      }));
+      // Only the art session ID travels through checkout metadata
+      const artSessionId = await saveArtSession();
       
       await redirectToCheckout(
-        `art_${Date.now()}`,
-        `${analysis.year} ${analysis.make} ${analysis.model}`
+        artSessionId,
+        `${analysis.year} ${analysis.make} ${analysis.model}`,
+        creditPackId,
+        appliedPromo?.code,
+        creditPackId ? undefined : selectedTierId
       );
     } catch (err) {
       console.error('Checkout error:', err);
@@ -697,26 +1073,93 @@ const App: React.FC = () => {
     }
   };
 
-  // DEV MODE: Skip payment and generate all formats
+  // Validate the entered code server-side before showing the discount
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim()) return;
+    setIsCheckingPromo(true);
+    setPromoError(null);
+    
+    try {
+      const promo = await checkPromoCode(promoInput.trim());
+      setAppliedPromo(promo);
+      haptic.success();
+    } catch (err: any) {
+      setAppliedPromo(null);
+      setPromoError(err.message || 'Invalid code');
+      haptic.error();
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  };
+
+  // Free-pack campaign code - no checkout
+  const handlePromoUnlock = async () => {
+    if (!imageBase64 || !analysis || !previewArt || !appliedPromo?.freePack) return;
+    setIsProcessingPayment(true);
+    setStep(Step.GENERATING);
+    setStatusMessage("Unlocking with your code...");
+    
+    try {
+      const artSessionId = await saveArtSession();
+      const set = await generateRemainingFormats(
+        { artSessionId, promoCode: appliedPromo.code },
+        (progress) => setStatusMessage(progress)
+      );
+      setArtSet(set);
+      setHasPaid(true);
+      haptic.success();
+      setStep(Step.COMPLETE);
+    } catch (err: any) {
+      console.error('Promo unlock error:', err);
+      haptic.error();
+      setAppliedPromo(null);
+      setPromoError(err.message || "Couldn't redeem this code");
+      setStep(Step.PREVIEW);
+    } finally {
+      setIsProcessingPayment(false);
+    }
+  };
+
+  // Spend one pack credit instead of going through checkout
+  const handleCreditUnlock = async () => {
+    if (!imageBase64 || !analysis || !previewArt || !creditToken) return;
+    setIsProcessingPayment(true);
+    setStep(Step.GENERATING);
+    setStatusMessage("Unlocking with 1 credit...");
+    
+    try {
+      const artSessionId = await saveArtSession();
+      const set = await generateRemainingFormats(
+        { artSessionId, creditToken },
+        (progress) => setStatusMessage(progress)
+      );
+      setArtSet(set);
+      setHasPaid(true);
+      haptic.success();
+      setStep(Step.COMPLETE);
+    } catch (err) {
+      console.error('Credit unlock error:', err);
+      haptic.error();
+      alert("Couldn't unlock with a credit. Please try again.");
+      setStep(Step.PREVIEW);
+    } finally {
+      setIsProcessingPayment(false);
+      refreshCredits();
+    }
+  };
+
+  // STAFF MODE: Skip payment and generate all formats
   const handleDevUnlock = async () => {
-    if (!imageBase64 || !analysis || !previewArt) return;
+    if (!imageBase64 || !analysis || !previewArt || !staffToken) return;
     setIsProcessingPayment(true);
     setStep(Step.GENERATING);
     setStatusMessage("DEV MODE: Generating all formats...");
     
     try {
+      const artSessionId = await saveArtSession();
       const set = await generateRemainingFormats(
-        imageBase64, 
-        previewArt,
-        analysis, 
-        ArtStyle.POSTER, 
-        background, 
-        fidelity, 
-        position,
-        stance, 
-        selectedMods,
-        (progress) => setStatusMessage(`DEV: ${progress}`),
-        background === BackgroundTheme.CITY ? customCity : undefined
+        { artSessionId, staffToken, tierId: selectedTierId, renderMode: devRenderMode },
+        (progress) => setStatusMessage(`DEV: ${progress}`)
       );
       setArtSet(set);
       setHasPaid(true);
@@ -730,24 +1173,23 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDownload = async (format: 'phone' | 'desktop' | 'print') => {
-    if (!artSet || !analysis) return;
+  const handleDownload = async (format: ArtFormat) => {
+    if (!artSet?.downloads[format] || !analysis) return;
     haptic.success(); // Haptic on download
     
     // Use correct mimeType and extension
-    const mimeType = artSet.mimeType || 'image/png';
+    const mimeType = getFormatMimeType(artSet, format);
     const extension = mimeType.includes('jpeg') || mimeType.includes('jpg') ? 'jpg' : 'png';
     const fileName = `GarageCanvas-${analysis.make}-${analysis.model}-${format}-4K.${extension}`;
-    const base64Data = artSet[format];
     
-    // Convert base64 to blob for sharing
-    const byteCharacters = atob(base64Data);
-    const byteNumbers = new Array(byteCharacters.length);
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
+    let blob: Blob;
+    try {
+      blob = await fetchArtFile(artSet, format);
+    } catch (err) {
+      console.error('Download error:', err);
+      alert('Download failed. Please try again.');
+      return;
     }
-    const byteArray = new Uint8Array(byteNumbers);
-    const blob = new Blob([byteArray], { type: mimeType });
     const file = new File([blob], fileName, { type: mimeType });
     
     // Try Web Share API first (iOS can save to gallery)
@@ -764,10 +1206,12 @@ const App: React.FC = () => {
     }
     
     // Fallback: regular download
+    const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
-    link.href = `data:${mimeType};base64,${base64Data}`;
+    link.href = url;
     link.download = fileName;
     link.click();
+    URL.revokeObjectURL(url);
   };
 
   const handleDownloadZip = async () => {
@@ -778,22 +1222,16 @@ const App: React.FC = () => {
       const zip = new JSZip();
       const vehicleName = `${analysis.year}-${analysis.make}-${analysis.model}`.replace(/\s+/g, '-');
       
-      // Use correct extension based on mimeType
-      const extension = (artSet.mimeType?.includes('jpeg') || artSet.mimeType?.includes('jpg')) ? 'jpg' : 'png';
-      
-      const addToZip = (base64: string, filename: string) => {
-        const byteCharacters = atob(base64);
-        const byteNumbers = new Array(byteCharacters.length);
-        for (let i = 0; i < byteCharacters.length; i++) {
-          byteNumbers[i] = byteCharacters.charCodeAt(i);
-        }
-        const byteArray = new Uint8Array(byteNumbers);
-        zip.file(filename, byteArray);
+      // Use correct extension based on each format's mimeType
+      const extensionFor = (format: ArtFormat) => {
+        const mimeType = getFormatMimeType(artSet, format);
+        return mimeType.includes('jpeg') || mimeType.includes('jpg') ? 'jpg' : 'png';
       };
       
-      addToZip(artSet.phone, `GarageCanvas-${vehicleName}-Phone-4K.${extension}`);
-      addToZip(artSet.desktop, `GarageCanvas-${vehicleName}-Desktop-4K.${extension}`);
-      addToZip(artSet.print, `GarageCanvas-${vehicleName}-Print-4K.${extension}`);
+      for (const format of artSet.formats) {
+        if (!artSet.downloads[format]) continue;
+        zip.file(`GarageCanvas-${vehicleName}-${formatFileLabel(format)}-4K.${extensionFor(format)}`, await fetchArtFile(artSet, format));
+      }
       
       const blob = await zip.generateAsync({ type: 'blob' });
       const url = URL.createObjectURL(blob);
@@ -821,6 +1259,8 @@ const App: React.FC = () => {
   const startNew = () => {
     setImageBase64(null);
     setPreviewArt(null);
+    setPreviewCandidates([]);
+    setRevisions([]);
     setArtSet(null);
     setAnalysis(null);
     setHasPaid(false);
@@ -959,6 +1399,17 @@ const App: React.FC = () => {
                   <Info size={18} />
                   Terms of Service
                 </button>
+                <button 
+                  onClick={() => {
+                    setIsMenuOpen(false);
+                    setRecoveryError(null);
+                    setStep(Step.RECOVER);
+                  }}
+                  className="flex items-center gap-3 text-sm text-zinc-400 hover:text-white transition-colors w-full text-left"
+                >
+                  <LifeBuoy size={18} />
+                  Recover My Pack
+                </button>
                 <a 
                   href="mailto:hello@thegaragecanvas.art"
                   className="flex items-center gap-3 text-sm text-zinc-400 hover:text-white transition-colors w-full text-left"
@@ -1038,10 +1489,13 @@ const App: React.FC = () => {
               </p>
             </div>
 
+            {isUnderMaintenance && <MaintenanceNotice />}
+            {isCoolingDown && <CooldownNotice seconds={cooldownSeconds} />}
+
             {/* Premium Upload Zone */}
             <label 
               htmlFor="file-upload"
-              className="relative aspect-square w-full max-w-[280px] md:max-w-[500px] mx-auto mb-10 md:mb-16 rounded-[2rem] md:rounded-[4rem] liquid-glass flex flex-col items-center justify-center p-6 md:p-12 transition-all duration-500 animate-breathing-glow cursor-pointer btn-press active:scale-[0.98]"
+              className={`relative aspect-square w-full max-w-[280px] md:max-w-[500px] mx-auto mb-10 md:mb-16 rounded-[2rem] md:rounded-[4rem] liquid-glass flex flex-col items-center justify-center p-6 md:p-12 transition-all duration-500 animate-breathing-glow cursor-pointer btn-press active:scale-[0.98] ${isUnderMaintenance ? 'opacity-40 pointer-events-none' : ''}`}
             >
               <input 
                 id="file-upload"
@@ -1049,6 +1503,7 @@ const App: React.FC = () => {
                 accept="image/*"
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" 
                 onChange={handleFile} 
+                disabled={isCoolingDown || isUnderMaintenance}
               />
               <div className="w-20 h-20 rounded-3xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center shadow-2xl shadow-orange-500/20 mb-6 animate-float pointer-events-none">
                 <Upload size={32} className="text-white" />
@@ -1572,6 +2027,10 @@ const App: React.FC = () => {
               )}
             </div>
 
+            {isCoolingDown && customizeStep === CustomizeStep.EXTRAS && (
+              <CooldownNotice seconds={cooldownSeconds} />
+            )}
+
             {/* Navigation Buttons */}
             <div className="flex gap-4">
               {customizeStep !== CustomizeStep.ANGLE && (
@@ -1596,7 +2055,8 @@ const App: React.FC = () => {
                   else if (customizeStep === CustomizeStep.STYLE) setCustomizeStep(CustomizeStep.EXTRAS);
                   else handleGenerate();
                 }}
-                className={`flex-1 h-16 rounded-3xl font-extrabold tracking-tight text-lg shadow-2xl transition-all btn-primary-press flex items-center justify-center gap-3 ${
+                disabled={isCoolingDown && customizeStep === CustomizeStep.EXTRAS}
+                className={`flex-1 h-16 disabled:opacity-40 rounded-3xl font-extrabold tracking-tight text-lg shadow-2xl transition-all btn-primary-press flex items-center justify-center gap-3 ${
                   customizeStep === CustomizeStep.EXTRAS
                     ? 'bg-gradient-to-r from-amber-500 via-amber-600 to-orange-600 text-white shadow-orange-500/30'
                     : 'bg-white text-black'
@@ -1671,6 +2131,14 @@ const App: React.FC = () => {
                     </div>
                   )}
                 </div>
+
+                {previewCandidates.length > 1 && !revisions.length && (
+                  <CandidatePicker candidates={previewCandidates} selected={previewArt} onSelect={setPreviewArt} />
+                )}
+                {previewIssues.length > 0 && (
+                  <FidelityNotice issues={previewIssues} hint="Pick another option, or describe the fix below." />
+                )}
+                {refinementPanel}
                 
                 {/* Save Button - Different text for mobile vs desktop */}
                 <button 
@@ -1756,39 +2224,66 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                {previewCandidates.length > 1 && !revisions.length && (
+                  <CandidatePicker candidates={previewCandidates} selected={previewArt} onSelect={setPreviewArt} blurred />
+                )}
+                {previewIssues.length > 0 && (
+                  <FidelityNotice issues={previewIssues} hint="Pick another option, or describe the fix below." />
+                )}
+                {refinementPanel}
+
                 {/* Pricing Card - Liquid Glass */}
                 <div className="liquid-glass rounded-[2.5rem] p-8">
+                  {/* Tier selector */}
+                  {products && products.tiers.length > 1 && (
+                    <div className="flex gap-2 mb-6 p-1 bg-white/5 rounded-2xl border border-white/5">
+                      {products.tiers.map((tier) => (
+                        <button
+                          key={tier.id}
+                          onClick={() => setSelectedTierId(tier.id)}
+                          className={`flex-1 py-2.5 rounded-xl text-[10px] font-extrabold uppercase tracking-widest transition-all ${
+                            tier.id === selectedTierId ? 'bg-white text-black' : 'text-zinc-500 hover:text-white'
+                          }`}
+                        >
+                          {tier.shortLabel}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  
                   <div className="flex items-center justify-between mb-8">
                     <div className="flex items-center gap-4 text-left">
                       <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center shadow-lg shadow-orange-500/20">
                         <Package size={24} className="text-white" />
                       </div>
                       <div>
-                        <h3 className="font-extrabold text-lg text-white tracking-tight">4K Masterpiece Pack</h3>
-                        <p className="text-[10px] text-zinc-500 uppercase font-bold tracking-widest text-left">Phone + Desktop + Print</p>
+                        <h3 className="font-extrabold text-lg text-white tracking-tight">{selectedTier?.label || '4K Masterpiece Pack'}</h3>
+                        <p className="text-[10px] text-zinc-500 uppercase font-bold tracking-widest text-left">{selectedTier?.description || 'Phone + Desktop + Print'}</p>
                       </div>
                     </div>
                     <div className="text-right">
-                      <span className="text-3xl font-black text-white">$3.99</span>
+                      <span className={`text-3xl font-black ${appliedPromo ? 'text-zinc-600 line-through' : 'text-white'}`}>{formatPrice(selectedTier?.price ?? null) || '$3.99'}</span>
+                      {appliedPromo && (
+                        <span className="text-[10px] font-extrabold text-amber-500 block uppercase tracking-widest">{appliedPromo.description}</span>
+                      )}
                     </div>
                   </div>
                   
                   <div className="grid grid-cols-3 gap-3 mb-8">
-                    {[
-                      { icon: Smartphone, label: 'Phone', ratio: '9:20' },
-                      { icon: Monitor, label: 'Desktop', ratio: '16:9' },
-                      { icon: Printer, label: 'Print', ratio: '4:3' },
-                    ].map((fmt) => (
-                      <div key={fmt.label} className="bg-white/5 rounded-2xl p-4 text-center border border-white/5">
-                        <fmt.icon size={20} className="mx-auto mb-2 text-amber-500" />
-                        <span className="text-[9px] font-bold text-zinc-400 block uppercase tracking-tighter">{fmt.label}</span>
-                        <span className="text-[10px] font-black text-white">4K</span>
-                      </div>
-                    ))}
+                    {(selectedTier?.formats || ['phone', 'desktop', 'print'] as ArtFormat[]).map((format) => {
+                      const FormatIcon = FORMAT_ICONS[format];
+                      return (
+                        <div key={format} className="bg-white/5 rounded-2xl p-4 text-center border border-white/5">
+                          <FormatIcon size={20} className="mx-auto mb-2 text-amber-500" />
+                          <span className="text-[9px] font-bold text-zinc-400 block uppercase tracking-tighter">{formatFileLabel(format).replace('-', ' ')}</span>
+                          <span className="text-[10px] font-black text-white">{products?.formats[format]?.ratio || '4K'}</span>
+                        </div>
+                      );
+                    })}
                   </div>
 
                   <button 
-                    onClick={handlePurchase}
+                    onClick={() => appliedPromo?.freePack ? handlePromoUnlock() : handlePurchase()}
                     disabled={isProcessingPayment}
                     className="w-full h-16 bg-white text-black font-extrabold text-lg rounded-3xl flex items-center justify-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed btn-press active:scale-95 active:bg-zinc-200 shadow-2xl shadow-white/10"
                   >
@@ -1797,18 +2292,81 @@ const App: React.FC = () => {
                     ) : (
                       <>
                         <Download size={24} />
-                        UNLOCK 4K PACK
+                        {appliedPromo?.freePack ? 'UNLOCK FREE' : 'UNLOCK 4K PACK'}
                       </>
                     )}
                   </button>
                   
+                  {creditBalance !== null && creditBalance > 0 && (
+                    <button 
+                      onClick={handleCreditUnlock}
+                      disabled={isProcessingPayment}
+                      className="w-full h-14 mt-3 bg-amber-500/10 border border-amber-500/30 text-amber-500 font-extrabold rounded-3xl flex items-center justify-center gap-2 disabled:opacity-50 btn-press active:scale-95"
+                    >
+                      <Zap size={18} />
+                      USE 1 CREDIT ({creditBalance} LEFT)
+                    </button>
+                  )}
+                  
+                  {/* Promo / campaign code */}
+                  <div className="flex gap-2 mt-4">
+                    <div className="flex-1 h-12 bg-white/5 border border-white/10 rounded-2xl flex items-center gap-2 px-4">
+                      <Tag size={14} className="text-zinc-500 flex-shrink-0" />
+                      <input
+                        type="text"
+                        value={promoInput}
+                        onChange={(e) => {
+                          setPromoInput(e.target.value.toUpperCase());
+                          setAppliedPromo(null);
+                          setPromoError(null);
+                        }}
+                        onKeyDown={(e) => e.key === 'Enter' && handleApplyPromo()}
+                        placeholder="Promo code"
+                        className="flex-1 bg-transparent text-sm font-bold text-white placeholder-zinc-600 outline-none uppercase tracking-wider"
+                      />
+                    </div>
+                    <button
+                      onClick={handleApplyPromo}
+                      disabled={!promoInput.trim() || isCheckingPromo || isProcessingPayment}
+                      className="h-12 px-5 bg-white/10 text-white text-xs font-extrabold rounded-2xl uppercase tracking-widest disabled:opacity-40 btn-press active:scale-95"
+                    >
+                      {isCheckingPromo ? '...' : appliedPromo ? <Check size={16} /> : 'Apply'}
+                    </button>
+                  </div>
+                  {promoError && (
+                    <p className="text-[11px] text-red-400 font-medium mt-2 text-left">{promoError}</p>
+                  )}
+                  
                   <p className="text-center text-[10px] text-zinc-600 mt-6 font-medium">
                     Secured by Stripe • Instant Access
                   </p>
                 </div>
+
+                {/* Credit Bundles - families & clubs */}
+                {creditPacks.length > 0 && (
+                  <div className="liquid-glass rounded-[2rem] p-6">
+                    <p className="text-[10px] font-extrabold text-zinc-500 text-center mb-4 uppercase tracking-[0.2em]">More Vehicles? Save With Credits</p>
+                    <div className="space-y-3">
+                      {creditPacks.map((pack) => (
+                        <button 
+                          key={pack.id}
+                          onClick={() => handlePurchase(pack.id)}
+                          disabled={isProcessingPayment}
+                          className="w-full h-14 bg-white/5 hover:bg-white/10 rounded-2xl transition-all flex items-center justify-between px-5 border border-white/5 disabled:opacity-50"
+                        >
+                          <div className="text-left">
+                            <span className="text-sm font-bold block">{pack.label}</span>
+                            <span className="text-[9px] text-zinc-500 font-bold">{pack.credits} full packs • this one included</span>
+                          </div>
+                          <span className="text-sm font-black text-white">{formatPrice(pack.price)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 
                 {/* DEV MODE BUTTONS */}
-                {isDevMode && (
+                {staffToken && (
                   <div className="space-y-3 pt-4 border-t border-white/5">
                     <button 
                       onClick={() => {
@@ -1824,6 +2382,12 @@ const App: React.FC = () => {
                     >
                       📱 DEV: Download Phone Only
                     </button>
+                    <button 
+                      onClick={() => setDevRenderMode(mode => mode === 'regenerate' ? 'outpaint' : 'regenerate')}
+                      className="w-full py-4 bg-zinc-800 text-white font-bold rounded-2xl hover:bg-zinc-700 transition-colors flex items-center justify-center gap-2 text-xs uppercase tracking-widest"
+                    >
+                      🧪 DEV: Render Mode - {devRenderMode}
+                    </button>
                     <button 
                       onClick={handleDevUnlock}
                       className="w-full py-4 bg-amber-500/10 border border-amber-500/30 text-amber-500 font-bold rounded-2xl flex items-center justify-center gap-2 text-xs uppercase tracking-widest"
@@ -1835,7 +2399,7 @@ const App: React.FC = () => {
 
                 {/* Adjust Settings */}
                 <button 
-                  onClick={() => { setPreviewArt(null); setStep(Step.CUSTOMIZE); }}
+                  onClick={() => { setPreviewArt(null); setPreviewCandidates([]); setRevisions([]); setStep(Step.CUSTOMIZE); }}
                   className="w-full py-4 text-zinc-500 hover:text-zinc-300 font-bold uppercase tracking-[0.2em] text-[10px] transition-colors flex items-center justify-center gap-2"
                 >
                   <RefreshCw size={14} />
@@ -1846,6 +2410,79 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* ============ RECOVER ============ */}
+        {step === Step.RECOVER && (
+          <div className="pt-4 animate-fade-slide-in">
+            <div className="text-center mb-8">
+              <div className="w-16 h-16 bg-amber-500/10 rounded-full flex items-center justify-center mx-auto mb-4 border border-amber-500/20">
+                <LifeBuoy size={32} className="text-amber-500" />
+              </div>
+              <h2 className="text-3xl font-black text-white tracking-tight mb-2 uppercase">Recover My Pack</h2>
+              <p className="text-sm text-zinc-500">Paid but didn't get your art? We'll finish it for you.</p>
+            </div>
+
+            {recoveryError && (
+              <div className="mb-6 rounded-2xl border border-red-500/20 bg-red-500/10 px-5 py-4 text-sm text-red-300">
+                {recoveryError}
+              </div>
+            )}
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleRecover({ email: recoveryEmail, sessionId: recoveryOrderRef });
+              }}
+              className="liquid-glass rounded-[2.5rem] p-8 space-y-4"
+            >
+              <label className="block">
+                <span className="text-[10px] font-extrabold text-zinc-500 uppercase tracking-[0.2em]">Order Email</span>
+                <input
+                  type="email"
+                  required
+                  value={recoveryEmail}
+                  onChange={(e) => setRecoveryEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  className="mt-2 w-full h-12 rounded-2xl bg-white/5 border border-white/10 px-4 text-sm text-white placeholder-zinc-600 focus:outline-none focus:border-amber-500/50"
+                />
+              </label>
+              <label className="block">
+                <span className="text-[10px] font-extrabold text-zinc-500 uppercase tracking-[0.2em]">Order Reference</span>
+                <input
+                  type="text"
+                  required
+                  value={recoveryOrderRef}
+                  onChange={(e) => setRecoveryOrderRef(e.target.value)}
+                  placeholder="cs_live_..."
+                  className="mt-2 w-full h-12 rounded-2xl bg-white/5 border border-white/10 px-4 text-sm text-white placeholder-zinc-600 focus:outline-none focus:border-amber-500/50"
+                />
+              </label>
+
+              <button
+                type="submit"
+                className="w-full h-16 bg-white text-black font-extrabold text-lg rounded-3xl flex items-center justify-center gap-3 btn-press active:scale-95 active:bg-zinc-200 shadow-2xl shadow-white/10"
+              >
+                <Download size={24} />
+                RECOVER MY PACK
+              </button>
+
+              {recoveryToken && (
+                <button
+                  type="button"
+                  onClick={() => handleRecover({ token: recoveryToken })}
+                  className="w-full py-3 text-amber-500 hover:text-amber-400 font-bold uppercase tracking-[0.2em] text-[10px] transition-colors flex items-center justify-center gap-2"
+                >
+                  <RefreshCw size={14} />
+                  Try Again With This Order
+                </button>
+              )}
+            </form>
+
+            <p className="text-center text-[10px] text-zinc-600 mt-6 font-medium">
+              Still stuck? <a href="mailto:hello@thegaragecanvas.art" className="text-zinc-400 underline">Contact support</a>
+            </p>
+          </div>
+        )}
+
         {/* ============ COMPLETE ============ */}
         {step === Step.COMPLETE && hasPaid && artSet && (
           <div className="pt-4 animate-fade-slide-in">
@@ -1856,12 +2493,18 @@ const App: React.FC = () => {
               </div>
               <h2 className="text-3xl font-black text-white tracking-tight mb-2 uppercase">Complete Pack Ready</h2>
               <p className="text-sm text-zinc-500">Your 4K automotive art is waiting</p>
+              {recoveryEmail && (
+                <p className="text-[11px] text-zinc-600 mt-2 flex items-center justify-center gap-1.5">
+                  <Mail size={12} />
+                  Download links also sent to {recoveryEmail}
+                </p>
+              )}
             </div>
 
             {/* Success Image */}
             <div className="relative aspect-[3/4] rounded-[2.5rem] overflow-hidden mb-8 bg-zinc-950 border border-white/5 shadow-2xl">
               <img 
-                src={`data:image/png;base64,${artSet.phone}`}
+                src={artSet.downloads.phone}
                 className="w-full h-full object-contain"
                 alt="Your artwork"
               />
@@ -1871,41 +2514,56 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* ZIP Download - Primary */}
-            <button 
-              onClick={handleDownloadZip}
-              disabled={isDownloading}
-              className="w-full h-16 bg-gradient-to-r from-amber-500 via-amber-600 to-orange-600 text-white font-extrabold text-lg rounded-3xl flex items-center justify-center gap-3 mb-6 disabled:opacity-50 btn-primary-press active:scale-95 shadow-2xl shadow-orange-500/30"
-            >
-              {isDownloading ? (
-                <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-              ) : (
-                <>
-                  <FolderArchive size={24} />
-                  DOWNLOAD ALL (ZIP)
-                </>
-              )}
-            </button>
+            {/* ZIP Download - Primary (multi-format tiers) */}
+            {artSet.formats.length > 1 && (
+              <button 
+                onClick={handleDownloadZip}
+                disabled={isDownloading}
+                className="w-full h-16 bg-gradient-to-r from-amber-500 via-amber-600 to-orange-600 text-white font-extrabold text-lg rounded-3xl flex items-center justify-center gap-3 mb-6 disabled:opacity-50 btn-primary-press active:scale-95 shadow-2xl shadow-orange-500/30"
+              >
+                {isDownloading ? (
+                  <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                ) : (
+                  <>
+                    <FolderArchive size={24} />
+                    DOWNLOAD ALL (ZIP)
+                  </>
+                )}
+              </button>
+            )}
+
+            {artSet.fidelityIssues && Object.keys(artSet.fidelityIssues).length > 0 && (
+              <div className="mb-6">
+                <FidelityNotice
+                  issues={Object.values(artSet.fidelityIssues).flatMap(issues => issues || [])}
+                  hint="Contact support if you'd like those formats redone."
+                />
+              </div>
+            )}
 
             {/* Individual Downloads in Liquid Glass */}
             <div className="liquid-glass rounded-[2rem] p-6 mb-8">
               <p className="text-[10px] font-extrabold text-zinc-500 text-center mb-4 uppercase tracking-[0.2em]">Individual Formats</p>
               <div className="space-y-3">
-                {[
-                  { key: 'phone', icon: Smartphone, label: 'Phone Wallpaper', ratio: '9:20' },
-                  { key: 'desktop', icon: Monitor, label: 'Desktop Background', ratio: '16:9' },
-                  { key: 'print', icon: Printer, label: 'Print-Ready Art', ratio: '4:3' },
-                ].map((fmt) => (
+                {artSet.formats.map((format) => ({
+                  key: format,
+                  icon: FORMAT_ICONS[format],
+                  label: products?.formats[format]?.label || formatFileLabel(format),
+                  ratio: products?.formats[format]?.ratio || '',
+                  size: artSet.dimensions?.[format],
+                })).map((fmt) => (
                   <button 
                     key={fmt.key}
-                    onClick={() => handleDownload(fmt.key as 'phone' | 'desktop' | 'print')}
+                    onClick={() => handleDownload(fmt.key)}
                     className="w-full h-14 bg-white/5 hover:bg-white/10 rounded-2xl transition-all flex items-center justify-between px-5 border border-white/5"
                   >
                     <div className="flex items-center gap-4">
                       <fmt.icon size={18} className="text-amber-500" />
                       <div className="text-left">
                         <span className="text-sm font-bold block">{fmt.label}</span>
-                        <span className="text-[9px] text-zinc-500 font-bold">{fmt.ratio} • 4K</span>
+                        <span className="text-[9px] text-zinc-500 font-bold">
+                          {fmt.ratio} • {fmt.size ? `${fmt.size.width}×${fmt.size.height}` : '4K'}
+                        </span>
                       </div>
                     </div>
                     <Download size={16} className="text-zinc-500" />
@@ -0,0 +1,78 @@
+/**
+ * Art Files
+ *
+ * The rendered formats of a pack, stored one record per format. A full pack
+ * at print size is far bigger than one record may be (Upstash caps a request
+ * at 10MB) or one function response (Vercel caps it at 4.5MB), so jobs only
+ * list their formats and each file is fetched on its own through
+ * /api/download.
+ */
+
+import type { ArtFormat } from '../../shared/schema.js';
+import { createRecordStore } from './recordStore.js';
+import type { SizedImage } from './imageOutput.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ArtFile {
+  jobId: string;
+  format: ArtFormat;
+  data: string;               // Base64
+  mimeType: string;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+export interface ArtFileStore {
+  get(jobId: string, format: ArtFormat): Promise<ArtFile | null>;
+  save(file: ArtFile): Promise<void>;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class RecordArtFileStore implements ArtFileStore {
+  private records = createRecordStore<ArtFile>('art-files');
+
+  get(jobId: string, format: ArtFormat) {
+    return this.records.get(`${jobId}:${format}`);
+  }
+
+  save(file: ArtFile) {
+    return this.records.put(`${file.jobId}:${file.format}`, file);
+  }
+}
+
+let store: ArtFileStore | null = null;
+
+export function getArtFileStore(): ArtFileStore {
+  if (!store) store = new RecordArtFileStore();
+  return store;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export async function saveArtFile(jobId: string, format: ArtFormat, image: SizedImage): Promise<void> {
+  await getArtFileStore().save({
+    jobId,
+    format,
+    data: image.data,
+    mimeType: image.mimeType,
+    width: image.width,
+    height: image.height,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Download URL for the app - the job ID is the key, as for its status.
+ * Emailed links carry an expiring token instead (see delivery.ts).
+ */
+export const getArtFileUrl = (jobId: string, format: ArtFormat): string =>
+  `/api/download?job=${encodeURIComponent(jobId)}&format=${format}`;
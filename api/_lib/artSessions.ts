@@ -0,0 +1,77 @@
+/**
+ * Art Sessions
+ *
+ * Server-side copy of everything needed to finish an artwork after checkout:
+ * the source photo, the generation parameters and the approved phone preview.
+ * Only the art session ID travels through Stripe metadata and the browser.
+ */
+
+import { randomUUID } from 'crypto';
+import { createRecordStore } from './recordStore.js';
+import type { GenerateArtParams } from '../templates.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ArtSession {
+  id: string;
+  sourceImage: string;        // Base64 JPEG - original vehicle photo
+  params: GenerateArtParams;
+  previewArt: string;         // Base64 - approved phone preview
+  previewMimeType: string;
+  createdAt: string;
+}
+
+export interface ArtSessionStore {
+  get(id: string): Promise<ArtSession | null>;
+  save(session: ArtSession): Promise<void>;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class RecordArtSessionStore implements ArtSessionStore {
+  private records = createRecordStore<ArtSession>('art-sessions');
+
+  get(id: string) {
+    return this.records.get(id);
+  }
+
+  save(session: ArtSession) {
+    return this.records.put(session.id, session);
+  }
+}
+
+let store: ArtSessionStore | null = null;
+
+export function getArtSessionStore(): ArtSessionStore {
+  if (!store) store = new RecordArtSessionStore();
+  return store;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Random, unguessable - the ID is the only key needed to resume a purchase
+export const createArtSessionId = (): string => `art_${randomUUID()}`;
+
+/**
+ * Generation params from a validated request body - the same params the
+ * generate-art route builds its prompt from
+ */
+export function toGenerateArtParams(options: Omit<GenerateArtParams, 'popularWheelName'>): GenerateArtParams {
+  return {
+    analysis: options.analysis,
+    style: options.style,
+    background: options.background,
+    fidelity: options.fidelity,
+    position: options.position,
+    stance: options.stance,
+    selectedMods: options.selectedMods,
+    popularWheelName: options.analysis.popularWheels[0]?.name,
+    customCity: options.customCity,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Product Catalog
+ *
+ * Each tier maps to a Stripe price and the list of formats it entitles.
+ * Checkout charges for a tier, fulfilment renders exactly its formats and
+ * the COMPLETE step lists them (via /api/products).
+ *
+ * The phone format is the approved preview itself - it is never re-rendered.
+ */
+
+import type { ArtFormat, ProductTierId } from '../../shared/schema.js';
+import { sandboxPriceId } from './sandbox.js';
+
+// ============================================================================
+// FORMATS
+// ============================================================================
+
+export interface ArtFormatInfo {
+  id: ArtFormat;
+  label: string;
+  ratio: string;              // Display ratio, e.g. "16:9"
+  resolution: string;         // Display resolution, e.g. "3840×2160"
+  width: number;              // Exact output size in pixels - enforced by imageOutput.ts
+  height: number;
+}
+
+export const ART_FORMATS: Record<ArtFormat, ArtFormatInfo> = {
+  phone: { id: 'phone', label: 'Phone Wallpaper', ratio: '9:19.5', resolution: '1080×2340', width: 1080, height: 2340 },
+  desktop: { id: 'desktop', label: 'Desktop Background', ratio: '16:9', resolution: '3840×2160', width: 3840, height: 2160 },
+  print: { id: 'print', label: 'Print-Ready Art', ratio: '4:3', resolution: '4096×3072', width: 4096, height: 3072 },
+  'print-square': { id: 'print-square', label: 'Square Canvas Print', ratio: '1:1', resolution: '4096×4096', width: 4096, height: 4096 },
+  'print-poster': { id: 'print-poster', label: 'Poster Print', ratio: '2:3', resolution: '4000×6000', width: 4000, height: 6000 },
+};
+
+// ============================================================================
+// TIERS - one Stripe price each
+// ============================================================================
+
+export interface ProductTier {
+  id: ProductTierId;
+  label: string;
+  shortLabel: string;         // Tier selector on the paywall
+  description: string;
+  priceId: string | undefined;
+  formats: ArtFormat[];       // In display order - always starts with phone
+}
+
+export const PRODUCT_TIERS: ProductTier[] = [
+  {
+    id: 'phone',
+    label: 'Phone Wallpaper',
+    shortLabel: 'Phone',
+    description: 'Your artwork, unwatermarked',
+    priceId: sandboxPriceId('phone') ?? process.env.STRIPE_PRICE_PHONE,
+    formats: ['phone'],
+  },
+  {
+    id: 'pack',
+    label: '4K Masterpiece Pack',
+    shortLabel: 'Full Pack',
+    description: 'Phone + Desktop + Print',
+    priceId: sandboxPriceId('pack') ?? process.env.STRIPE_PRICE_ID,
+    formats: ['phone', 'desktop', 'print'],
+  },
+  {
+    id: 'print-pack',
+    label: 'Print Collector Pack',
+    shortLabel: 'Print Pack',
+    description: 'Full pack + square canvas + poster',
+    priceId: sandboxPriceId('print-pack') ?? process.env.STRIPE_PRICE_PRINT_PACK,
+    formats: ['phone', 'desktop', 'print', 'print-square', 'print-poster'],
+  },
+];
+
+// Checkouts without a tier, credits and free-pack codes unlock the standard pack
+export const DEFAULT_TIER_ID: ProductTierId = 'pack';
+
+export const getProductTier = (id: unknown): ProductTier | undefined =>
+  PRODUCT_TIERS.find(tier => tier.id === id);
+
+/**
+ * Tier for a stored purchase - falls back to the default for older records
+ */
+export const resolveProductTier = (id: unknown): ProductTier =>
+  getProductTier(id) || getProductTier(DEFAULT_TIER_ID)!;
+
+/**
+ * Tiers that can be bought right now (have a Stripe price configured)
+ */
+export const getPurchasableTiers = (): ProductTier[] =>
+  PRODUCT_TIERS.filter(tier => tier.priceId);
@@ -0,0 +1,302 @@
+/**
+ * Credit Packs & Ledger
+ *
+ * Families and clubs can buy credit bundles (e.g. 5 vehicles at a discount).
+ * Credits are granted to the customer's email when a bundle checkout is paid
+ * and one credit is debited per full-pack generation. A debit whose every
+ * generation attempt failed is given back; refunding a bundle takes back
+ * whatever is left of its credits. Every change is a compare-and-set on the
+ * account record, so a webhook grant and an unlock debit landing at the same
+ * time can't overwrite each other.
+ *
+ * The browser holds a signed credit token identifying the account - never the
+ * balance itself.
+ */
+
+import type Stripe from 'stripe';
+import { randomUUID } from 'crypto';
+import { createRecordStore } from './recordStore.js';
+import { signToken, verifyToken } from './signing.js';
+import { sandboxPriceId } from './sandbox.js';
+import { isSessionPaid } from './stripe.js';
+import { logger } from './logger.js';
+
+export const CREDIT_TOKEN_TTL_MS = 365 * 24 * 60 * 60 * 1000; // 1 year
+
+// ============================================================================
+// CREDIT PACKS - additional Stripe products
+// ============================================================================
+
+export interface CreditPack {
+  id: string;
+  credits: number;
+  label: string;
+  priceId: string | undefined;
+}
+
+export const CREDIT_PACKS: CreditPack[] = [
+  { id: 'credits-5', credits: 5, label: '5 Vehicle Pack', priceId: sandboxPriceId('credits-5') ?? process.env.STRIPE_PRICE_CREDITS_5 },
+  { id: 'credits-10', credits: 10, label: '10 Vehicle Club Pack', priceId: sandboxPriceId('credits-10') ?? process.env.STRIPE_PRICE_CREDITS_10 },
+];
+
+export const getCreditPack = (id: unknown): CreditPack | undefined =>
+  CREDIT_PACKS.find(pack => pack.id === id && pack.priceId);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LedgerReason = 'purchase' | 'generation' | 'generation-refund' | 'purchase-refund';
+
+export interface LedgerEntry {
+  id: string;
+  delta: number;              // +credits on purchase, -1 per generation, +1 back when it failed, -unspent on a refunded purchase
+  reason: LedgerReason;
+  reference: string;          // Stripe session ID (purchase, purchase-refund) or art session ID (generation, generation-refund)
+  jobId?: string;             // Generation job paid for by this entry
+  attempts?: number;          // Generation attempts made on this one debit
+  refundedAt?: string;        // Generation debit given back - a new unlock debits again
+  createdAt: string;
+}
+
+export interface CreditAccount {
+  id: string;                 // Normalized email
+  email: string;
+  balance: number;
+  entries: LedgerEntry[];
+  updatedAt: string;
+}
+
+export interface CreditLedgerStore {
+  get(accountId: string): Promise<CreditAccount | null>;
+  /** Save only if the stored account is still `expected` - false when it changed meanwhile */
+  replace(expected: CreditAccount | null, account: CreditAccount): Promise<boolean>;
+}
+
+export class CreditError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'CreditError';
+  }
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class RecordCreditLedgerStore implements CreditLedgerStore {
+  private records = createRecordStore<CreditAccount>('credit-ledger');
+
+  get(accountId: string) {
+    return this.records.get(accountId);
+  }
+
+  replace(expected: CreditAccount | null, account: CreditAccount) {
+    return this.records.replace(account.id, expected, account);
+  }
+}
+
+let store: CreditLedgerStore | null = null;
+
+export function getCreditLedgerStore(): CreditLedgerStore {
+  if (!store) store = new RecordCreditLedgerStore();
+  return store;
+}
+
+// ============================================================================
+// ACCOUNT TOKENS
+// ============================================================================
+
+const toAccountId = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Returns null when CREDIT_TOKEN_SECRET is not configured
+ */
+export function createCreditToken(email: string): string | null {
+  const secret = process.env.CREDIT_TOKEN_SECRET;
+  if (!secret) return null;
+  return signToken({ acct: toAccountId(email) }, secret, CREDIT_TOKEN_TTL_MS);
+}
+
+/**
+ * Returns the account ID, or null if the token is invalid
+ */
+export function verifyCreditToken(token: unknown): string | null {
+  const secret = process.env.CREDIT_TOKEN_SECRET;
+  if (!secret) return null;
+  return verifyToken<{ acct: string }>(token, secret)?.acct || null;
+}
+
+// ============================================================================
+// LEDGER OPERATIONS
+// ============================================================================
+
+export async function getCreditAccount(accountId: string): Promise<CreditAccount | null> {
+  return getCreditLedgerStore().get(accountId);
+}
+
+// A webhook grant and an unlock debit can land on the same account at once
+const MAX_LEDGER_WRITES = 5;
+
+interface LedgerChange<R> {
+  account?: CreditAccount;    // The changed account to save - absent when nothing changes
+  result: R;
+}
+
+/**
+ * Read-change-write an account without losing a concurrent change: when the
+ * account changed between read and write, `change` runs again on the fresh
+ * copy. Errors thrown by `change` (e.g. CreditError) are passed through.
+ */
+async function changeAccount<R>(
+  accountId: string,
+  change: (account: CreditAccount | null) => LedgerChange<R>
+): Promise<R> {
+  const ledger = getCreditLedgerStore();
+  for (let write = 0; write < MAX_LEDGER_WRITES; write++) {
+    const current = await ledger.get(accountId);
+    // `change` mutates a copy - `current` is what the write is checked against
+    const { account, result } = change(current && structuredClone(current));
+    if (!account) return result;
+
+    account.updatedAt = new Date().toISOString();
+    if (await ledger.replace(current, account)) return result;
+  }
+
+  logger.warn('Credit account kept changing - write given up', { accountId });
+  throw new CreditError(409, 'Your credits are being updated - please try again');
+}
+
+const emptyAccount = (accountId: string, email: string): CreditAccount => ({
+  id: accountId,
+  email,
+  balance: 0,
+  entries: [],
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Grant the credits of a paid bundle checkout. Idempotent per Stripe session,
+ * so the webhook and verify-payment can both call it.
+ * Returns the account, or null if the session isn't a paid credit bundle.
+ */
+export async function grantCreditsForSession(session: Stripe.Checkout.Session): Promise<CreditAccount | null> {
+  const credits = Number(session.metadata?.credits);
+  const email = session.customer_details?.email;
+  if (session.metadata?.kind !== 'credits' || !isSessionPaid(session) || !credits || !email) {
+    return null;
+  }
+
+  const accountId = toAccountId(email);
+  return changeAccount(accountId, (existing) => {
+    const account = existing || emptyAccount(accountId, email);
+
+    // A refund can be processed before the grant - its revocation blocks it
+    const alreadySettled = account.entries.some(
+      entry => (entry.reason === 'purchase' || entry.reason === 'purchase-refund') && entry.reference === session.id
+    );
+    if (alreadySettled) return { result: account };
+
+    account.entries.push({ id: randomUUID(), delta: credits, reason: 'purchase', reference: session.id, createdAt: new Date().toISOString() });
+    account.balance += credits;
+    return { account, result: account };
+  });
+}
+
+/**
+ * Debit one credit for an art session. Idempotent per art session - unlocking
+ * the same artwork twice returns the existing debit instead of charging again.
+ * Throws CreditError when the account can't pay.
+ */
+export async function debitCreditForArt(accountId: string, artSessionId: string): Promise<{
+  account: CreditAccount;
+  entry: LedgerEntry;
+}> {
+  return changeAccount(accountId, (account) => {
+    if (!account) {
+      throw new CreditError(402, 'No credits on this account');
+    }
+
+    const existing = account.entries.find(
+      entry => entry.reason === 'generation' && entry.reference === artSessionId && !entry.refundedAt
+    );
+    if (existing) return { result: { account, entry: existing } };
+
+    if (account.balance < 1) {
+      throw new CreditError(402, 'No credits left');
+    }
+
+    const entry: LedgerEntry = { id: randomUUID(), delta: -1, reason: 'generation', reference: artSessionId, attempts: 0, createdAt: new Date().toISOString() };
+    account.entries.push(entry);
+    account.balance -= 1;
+    return { account, result: { account, entry } };
+  });
+}
+
+/**
+ * Give back the credit debited for an art session once every generation
+ * attempt has failed. Idempotent - a refunded debit is only refunded once.
+ */
+export async function refundCreditForArt(accountId: string, artSessionId: string): Promise<void> {
+  const refunded = await changeAccount(accountId, (account) => {
+    const debit = account?.entries.find(
+      entry => entry.reason === 'generation' && entry.reference === artSessionId && !entry.refundedAt
+    );
+    if (!account || !debit) return { result: false };
+
+    const now = new Date().toISOString();
+    debit.refundedAt = now;
+    account.entries.push({ id: randomUUID(), delta: 1, reason: 'generation-refund', reference: artSessionId, jobId: debit.jobId, createdAt: now });
+    account.balance += 1;
+    return { account, result: true };
+  });
+  if (refunded) logger.info('Credit refunded after failed generation', { accountId, artSessionId });
+}
+
+/**
+ * Take back the unspent credits of a refunded bundle checkout - credits
+ * already spent on artwork stay spent. Idempotent per Stripe session.
+ * Returns the credits revoked, or null if the session isn't a credit bundle.
+ */
+export async function revokeCreditsForSession(session: Stripe.Checkout.Session): Promise<number | null> {
+  const credits = Number(session.metadata?.credits);
+  const email = session.customer_details?.email;
+  if (session.metadata?.kind !== 'credits' || !credits || !email) {
+    return null;
+  }
+
+  const accountId = toAccountId(email);
+  const { amount, alreadyRevoked } = await changeAccount(accountId, (existing) => {
+    const account = existing || emptyAccount(accountId, email);
+
+    const revoked = account.entries.find(
+      entry => entry.reason === 'purchase-refund' && entry.reference === session.id
+    );
+    if (revoked) return { result: { amount: -revoked.delta, alreadyRevoked: true } };
+
+    // Nothing granted yet (refund processed first) - the entry alone blocks the grant
+    const granted = account.entries.some(entry => entry.reason === 'purchase' && entry.reference === session.id);
+    const amount = granted ? Math.min(credits, account.balance) : 0;
+
+    account.entries.push({ id: randomUUID(), delta: -amount, reason: 'purchase-refund', reference: session.id, createdAt: new Date().toISOString() });
+    account.balance -= amount;
+    return { account, result: { amount, alreadyRevoked: false } };
+  });
+
+  if (!alreadyRevoked) {
+    logger.info('Credits revoked for refunded bundle', { accountId, stripeSessionId: session.id, credits: amount });
+  }
+  return amount;
+}
+
+/**
+ * Update a debit entry in place (job ID, attempt count)
+ */
+export async function updateLedgerEntry(accountId: string, entryId: string, changes: Pick<LedgerEntry, 'jobId' | 'attempts'>): Promise<void> {
+  await changeAccount(accountId, (account) => {
+    const entry = account?.entries.find(e => e.id === entryId);
+    if (!account || !entry) return { result: undefined };
+    Object.assign(entry, changes);
+    return { account, result: undefined };
+  });
+}
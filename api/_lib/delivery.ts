@@ -0,0 +1,146 @@
+/**
+ * Pack Delivery
+ *
+ * When a generation job finishes, its art files (the completed pack) stay in
+ * storage and the customer is emailed expiring download links to them.
+ * That way the art isn't lost when the browser tab closes.
+ *
+ * Delivery is recorded per job so retries never send a second email.
+ */
+
+import type { ArtFormat } from '../../shared/schema.js';
+import { createRecordStore } from './recordStore.js';
+import { signToken, verifyToken } from './signing.js';
+import { getMailer } from './mailer.js';
+import { buildPackEmail } from './emailTemplates.js';
+import { ART_FORMATS } from './catalog.js';
+import type { ArtSession } from './artSessions.js';
+import type { GenerationJob } from './jobs.js';
+import { logger } from './logger.js';
+
+export const DOWNLOAD_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PackDelivery {
+  jobId: string;
+  email: string;
+  messageId?: string;
+  error?: string;             // Last send failure
+  sentAt?: string;
+  createdAt: string;
+}
+
+export interface DeliveryStore {
+  get(jobId: string): Promise<PackDelivery | null>;
+  save(delivery: PackDelivery): Promise<void>;
+}
+
+interface DownloadPayload {
+  job: string;                // Generation job ID
+  fmt: ArtFormat;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class RecordDeliveryStore implements DeliveryStore {
+  private records = createRecordStore<PackDelivery>('deliveries');
+
+  get(jobId: string) {
+    return this.records.get(jobId);
+  }
+
+  save(delivery: PackDelivery) {
+    return this.records.put(delivery.jobId, delivery);
+  }
+}
+
+let store: DeliveryStore | null = null;
+
+export function getDeliveryStore(): DeliveryStore {
+  if (!store) store = new RecordDeliveryStore();
+  return store;
+}
+
+// ============================================================================
+// DOWNLOAD LINKS
+// ============================================================================
+
+/**
+ * Returns null when DOWNLOAD_LINK_SECRET is not configured
+ */
+export function createDownloadToken(jobId: string, format: ArtFormat): string | null {
+  const secret = process.env.DOWNLOAD_LINK_SECRET;
+  if (!secret) return null;
+  return signToken<DownloadPayload>({ job: jobId, fmt: format }, secret, DOWNLOAD_LINK_TTL_MS);
+}
+
+/**
+ * Returns the job ID and format, or null if the token is invalid or expired
+ */
+export function verifyDownloadToken(token: unknown): { jobId: string; format: ArtFormat } | null {
+  const secret = process.env.DOWNLOAD_LINK_SECRET;
+  if (!secret) return null;
+  const payload = verifyToken<DownloadPayload>(token, secret);
+  return payload ? { jobId: payload.job, format: payload.fmt } : null;
+}
+
+// ============================================================================
+// EMAIL
+// ============================================================================
+
+const getBaseUrl = (): string => process.env.FRONTEND_URL || 'https://overland-art-director.vercel.app';
+
+/**
+ * Email the finished pack to the customer. Never throws - a failed email must
+ * not fail the job; the error is recorded on the delivery instead.
+ */
+export async function deliverPack(job: GenerationJob, artSession: ArtSession, email: string): Promise<void> {
+  const deliveries = getDeliveryStore();
+  const delivery: PackDelivery = await deliveries.get(job.id) || {
+    jobId: job.id,
+    email,
+    createdAt: new Date().toISOString(),
+  };
+  if (delivery.sentAt || !job.result) return;
+
+  try {
+    const links = job.result.formats.map((format) => {
+      const token = createDownloadToken(job.id, format);
+      if (!token) throw new Error('DOWNLOAD_LINK_SECRET is not configured');
+      const info = ART_FORMATS[format];
+      return {
+        label: `${info.label} (${info.ratio})`,
+        url: `${getBaseUrl()}/api/download?token=${encodeURIComponent(token)}`,
+      };
+    });
+
+    const { analysis } = artSession.params;
+    const message = buildPackEmail({
+      vehicleName: `${analysis.year} ${analysis.make} ${analysis.model}`,
+      links,
+      expiresAt: new Date(Date.now() + DOWNLOAD_LINK_TTL_MS),
+      thumbnailCid: 'artwork',
+    });
+
+    const { messageId } = await getMailer().send({
+      to: email,
+      ...message,
+      attachments: [{
+        filename: artSession.previewMimeType.includes('jpeg') ? 'artwork.jpg' : 'artwork.png',
+        content: Buffer.from(artSession.previewArt, 'base64'),
+        contentType: artSession.previewMimeType,
+        cid: 'artwork',
+      }],
+    });
+
+    await deliveries.save({ ...delivery, messageId, error: undefined, sentAt: new Date().toISOString() });
+  } catch (error: any) {
+    logger.error('Pack delivery failed', { jobId: job.id, error });
+    await deliveries.save({ ...delivery, error: error.message || 'Delivery failed' });
+  }
+}
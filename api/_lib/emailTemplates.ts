@@ -0,0 +1,93 @@
+/**
+ * Email Templates
+ *
+ * HTML + plain-text bodies for customer emails. Inline styles only - most
+ * mail clients strip <style> blocks.
+ */
+
+export interface PackEmailLink {
+  label: string;              // e.g. "Desktop Background (16:9)"
+  url: string;
+}
+
+export interface PackEmailInput {
+  vehicleName: string;        // e.g. "2021 Toyota 4Runner"
+  links: PackEmailLink[];
+  expiresAt: Date;
+  thumbnailCid: string;       // Inline attachment with the phone artwork
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export function buildPackEmail({ vehicleName, links, expiresAt, thumbnailCid }: PackEmailInput): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const expires = expiresAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+  const vehicle = escapeHtml(vehicleName);
+
+  const buttons = links.map(link => `
+          <tr>
+            <td style="padding: 6px 0;">
+              <a href="${escapeHtml(link.url)}" style="display: block; padding: 14px 20px; background: #18181b; border: 1px solid #27272a; border-radius: 14px; color: #ffffff; font-weight: 700; font-size: 14px; text-decoration: none;">
+                ⬇ ${escapeHtml(link.label)}
+              </a>
+            </td>
+          </tr>`).join('');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+  <body style="margin: 0; padding: 0; background: #09090b; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background: #09090b;">
+      <tr>
+        <td align="center" style="padding: 32px 16px;">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width: 480px;">
+            <tr>
+              <td style="padding-bottom: 8px; color: #f59e0b; font-size: 11px; font-weight: 800; letter-spacing: 0.2em; text-transform: uppercase;">
+                GarageCanvas
+              </td>
+            </tr>
+            <tr>
+              <td style="padding-bottom: 24px; color: #ffffff; font-size: 26px; font-weight: 900;">
+                Your ${vehicle} art is ready
+              </td>
+            </tr>
+            <tr>
+              <td style="padding-bottom: 24px;">
+                <img src="cid:${thumbnailCid}" alt="${vehicle} artwork" width="240" style="display: block; width: 240px; max-width: 100%; border-radius: 20px;" />
+              </td>
+            </tr>
+            ${buttons}
+            <tr>
+              <td style="padding-top: 24px; color: #71717a; font-size: 12px; line-height: 1.6;">
+                These download links expire on ${expires}. Save your files somewhere safe.
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`.trim();
+
+  const text = [
+    `Your ${vehicleName} art is ready`,
+    '',
+    ...links.map(link => `${link.label}: ${link.url}`),
+    '',
+    `These download links expire on ${expires}.`,
+  ].join('\n');
+
+  return {
+    subject: `Your ${vehicleName} GarageCanvas pack`,
+    html,
+    text,
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Server-side Entitlements
+ *
+ * A paid Stripe Checkout session entitles exactly one art session to one
+ * generation of the purchased product tier. The generate-remaining route MUST claim an entitlement
+ * before calling Gemini - the paywall in App.tsx is only a UI.
+ *
+ * Fulfilment is idempotent per checkout session: once a job has been started
+ * for a session, every later claim gets that same job (and its stored art)
+ * back instead of paying Gemini to render a different pack.
+ */
+
+import { getStripe, isSessionPaid } from './stripe.js';
+import { createRecordStore } from './recordStore.js';
+import { getOrderStore } from './orders.js';
+import { DEFAULT_TIER_ID } from './catalog.js';
+import { getJob, GenerationJob } from './jobs.js';
+import { logger } from './logger.js';
+
+// Failed generations don't consume the entitlement, but retries are capped
+export const MAX_GENERATION_ATTEMPTS = 3;
+
+// A reserved attempt normally has its job attached within the same request -
+// after this long the request is presumed dead and the attempt can be retried
+const CLAIM_TIMEOUT_MS = 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Entitlement {
+  stripeSessionId: string;
+  artSessionId: string;
+  tierId: string;             // Product tier paid for (checkout metadata)
+  attempts: number;
+  claimedAt?: string;         // When the latest attempt was reserved
+  jobId?: string;             // Fulfilment job for this checkout session
+  jobAttempt?: number;        // Attempt that started jobId
+  createdAt: string;
+  consumedAt?: string;
+}
+
+export interface EntitlementClaim {
+  entitlement: Entitlement;
+  existingJob: GenerationJob | null;  // Set when the session is already (being) fulfilled
+  email: string | null;               // Checkout email - where the pack is delivered
+}
+
+export interface EntitlementStore {
+  get(stripeSessionId: string): Promise<Entitlement | null>;
+  save(entitlement: Entitlement): Promise<void>;
+  /** Atomically reserve one generation attempt - false when already taken */
+  reserveAttempt(stripeSessionId: string, attempt: number): Promise<boolean>;
+}
+
+export class EntitlementError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'EntitlementError';
+  }
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class RecordEntitlementStore implements EntitlementStore {
+  private records = createRecordStore<Entitlement>('entitlements');
+  private claims = createRecordStore<{ claimedAt: string }>('entitlement-claims');
+
+  get(stripeSessionId: string) {
+    return this.records.get(stripeSessionId);
+  }
+
+  save(entitlement: Entitlement) {
+    return this.records.put(entitlement.stripeSessionId, entitlement);
+  }
+
+  reserveAttempt(stripeSessionId: string, attempt: number) {
+    return this.claims.create(`${stripeSessionId}:${attempt}`, { claimedAt: new Date().toISOString() });
+  }
+}
+
+let store: EntitlementStore | null = null;
+
+export function getEntitlementStore(): EntitlementStore {
+  if (!store) store = new RecordEntitlementStore();
+  return store;
+}
+
+// ============================================================================
+// CLAIM / CONSUME
+// ============================================================================
+
+/**
+ * Verify the checkout session with Stripe and either return its existing
+ * fulfilment job or reserve one new generation attempt.
+ * Throws EntitlementError (with the HTTP status to return) when refused.
+ */
+export async function claimEntitlement(
+  stripeSessionId: unknown,
+  artSessionId: unknown
+): Promise<EntitlementClaim> {
+  if (!stripeSessionId || typeof stripeSessionId !== 'string' ||
+      !artSessionId || typeof artSessionId !== 'string') {
+    throw new EntitlementError(401, 'Payment required');
+  }
+
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new EntitlementError(500, 'Payment service not configured');
+  }
+
+  let session;
+  try {
+    session = await stripe.checkout.sessions.retrieve(stripeSessionId);
+  } catch (error: any) {
+    logger.error('Entitlement lookup failed', { stripeSessionId, error: error.message });
+    throw new EntitlementError(402, 'Payment not found');
+  }
+
+  if (!isSessionPaid(session)) {
+    throw new EntitlementError(402, 'Payment not completed');
+  }
+  // Credit bundles grant credits, not this artwork - spend a credit instead
+  if (session.metadata?.kind === 'credits') {
+    throw new EntitlementError(403, 'This purchase was a credit pack - use a credit to unlock');
+  }
+  if (session.metadata?.artSessionId !== artSessionId) {
+    throw new EntitlementError(403, 'Payment does not match this artwork');
+  }
+
+  // Stripe still reports refunded sessions as paid - the webhook order knows better
+  const order = await getOrderStore().get(stripeSessionId);
+  if (order?.status === 'refunded') {
+    throw new EntitlementError(402, 'This purchase has been refunded');
+  }
+
+  const email = session.customer_details?.email || null;
+  const entitlements = getEntitlementStore();
+  const existing = await entitlements.get(stripeSessionId);
+  const entitlement: Entitlement = existing || {
+    stripeSessionId,
+    artSessionId,
+    tierId: session.metadata?.tierId || DEFAULT_TIER_ID,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+
+  // Already running or done - hand back the same job (failed jobs may be retried)
+  if (entitlement.jobId) {
+    const job = await getJob(entitlement.jobId);
+    if (job && job.status !== 'failed') {
+      return { entitlement, existingJob: job, email };
+    }
+  }
+
+  if (entitlement.consumedAt) {
+    throw new EntitlementError(409, 'This purchase has already been fulfilled');
+  }
+  // Another request reserved the latest attempt and is about to attach its job
+  const claimPending = entitlement.attempts > (entitlement.jobAttempt ?? 0)
+    && !!entitlement.claimedAt
+    && Date.now() - Date.parse(entitlement.claimedAt) < CLAIM_TIMEOUT_MS;
+  if (claimPending) {
+    throw new EntitlementError(409, 'Generation is already starting for this purchase');
+  }
+  if (entitlement.attempts >= MAX_GENERATION_ATTEMPTS) {
+    throw new EntitlementError(429, 'Too many generation attempts for this purchase');
+  }
+
+  // Read-check-write isn't atomic - the per-attempt reservation is, so two
+  // concurrent claims can't both start a generation
+  const attempt = entitlement.attempts + 1;
+  if (!(await entitlements.reserveAttempt(stripeSessionId, attempt))) {
+    throw new EntitlementError(409, 'Generation is already starting for this purchase');
+  }
+
+  entitlement.attempts = attempt;
+  entitlement.claimedAt = new Date().toISOString();
+  await entitlements.save(entitlement);
+  return { entitlement, existingJob: null, email };
+}
+
+/**
+ * Record the job fulfilling this entitlement - later claims resolve to it
+ */
+export async function attachJob(entitlement: Entitlement, jobId: string): Promise<void> {
+  entitlement.jobId = jobId;
+  entitlement.jobAttempt = entitlement.attempts;
+  await getEntitlementStore().save(entitlement);
+}
+
+/**
+ * Mark the entitlement as used once the full pack has been delivered
+ */
+export async function consumeEntitlement(entitlement: Entitlement): Promise<void> {
+  await getEntitlementStore().save({
+    ...entitlement,
+    consumedAt: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Fidelity Audit
+ *
+ * buildBasePrompt forbids invented tyre lettering, coloured centre caps and
+ * extra cargo, but the image models don't always listen. After an image is
+ * generated, the analysis provider compares it with the source photo and the
+ * vehicle analysis it was generated from, and lists the discrepancies.
+ *
+ * Breaking a hard rule gets the image generated again, with a correction for
+ * the broken rules appended to the prompt - when the request's deadline still
+ * leaves time for another attempt. When every attempt breaks one, the
+ * image with the fewest violations is kept and its violations are passed on
+ * so the customer can be told. Other discrepancies are only logged.
+ *
+ * A failed audit never holds back an image - it is returned unflagged.
+ */
+
+import { buildFidelityAuditPrompt, buildFidelityCorrection, type GenerateArtParams } from '../templates.js';
+import { FIDELITY_RULES, type ArtFormat, type FidelityIssue, type FidelityRule } from '../../shared/schema.js';
+import { generateForFormat, type SizedImage } from './imageOutput.js';
+import type { AiProviders, ImageData, ImageRequest } from './providers/index.js';
+import { logger } from './logger.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// The prompt forbids these outright - breaking one rejects the image
+const HARD_RULES: FidelityRule[] = ['tire-lettering', 'center-caps', 'invented-items'];
+
+// Images generated per format (each one audited) before the least-bad one is kept
+const ATTEMPTS_PER_IMAGE = 2;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AuditContext {
+  params: GenerateArtParams;    // What the image was generated from
+  sourceImage: string;          // Base64 JPEG
+}
+
+export interface AuditedImage extends SizedImage {
+  fidelityIssues: FidelityIssue[];   // Hard-rule violations left - empty when it passed or couldn't be audited
+}
+
+export interface AuditOptions {
+  // Asked before each re-generation - false keeps the flagged image (e.g. out of rate limit)
+  canRetry?: () => Promise<boolean>;
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+/**
+ * Hard-rule violations in an image - null when the audit couldn't run
+ */
+export async function auditImage(
+  providers: AiProviders,
+  image: ImageData,
+  { params, sourceImage }: AuditContext,
+  deadline?: number
+): Promise<FidelityIssue[] | null> {
+  try {
+    const { issues } = await providers.analysis.auditFidelity({
+      prompt: buildFidelityAuditPrompt(params),
+      images: [image, { mimeType: 'image/jpeg', data: sourceImage }],
+      deadline,
+    });
+    const known = (issues || []).filter(issue => FIDELITY_RULES.includes(issue.rule));
+    if (known.length) {
+      logger.info('Fidelity audit found issues', { rules: known.map(issue => issue.rule) });
+    }
+    return known.filter(issue => HARD_RULES.includes(issue.rule));
+  } catch (error) {
+    logger.warn('Fidelity audit failed', { error });
+    return null;
+  }
+}
+
+/**
+ * Generate an image for a format (fitted to its exact size) and audit it,
+ * re-generating with a correction while it breaks a hard rule - unless the
+ * request's deadline leaves no time for another attempt or canRetry says no
+ */
+export async function generateAudited(
+  providers: AiProviders,
+  request: Omit<ImageRequest, 'size'>,
+  format: ArtFormat,
+  context: AuditContext,
+  { canRetry }: AuditOptions = {}
+): Promise<AuditedImage> {
+  const generateChecked = async (attempt: number, prompt: string): Promise<AuditedImage> => {
+    const image = await generateForFormat(providers.image, { ...request, prompt }, format);
+    const violations = await auditImage(providers, image, context, request.deadline);
+    if (violations?.length) {
+      logger.warn('Image broke fidelity rules', { format, attempt, rules: violations.map(issue => issue.rule) });
+    }
+    return { ...image, fidelityIssues: violations || [] };
+  };
+
+  const startedAt = Date.now();
+  let latest = await generateChecked(1, request.prompt);
+  let best = latest;
+  const attemptMs = Date.now() - startedAt;
+
+  for (let attempt = 2; attempt <= ATTEMPTS_PER_IMAGE && latest.fidelityIssues.length; attempt++) {
+    // A retry takes about as long as the first attempt did
+    if (request.deadline !== undefined && request.deadline - Date.now() < attemptMs) {
+      logger.warn('No time left for a fidelity retry - keeping the flagged image', { format, attempt });
+      break;
+    }
+    if (canRetry && !(await canRetry())) {
+      logger.warn('Fidelity retry not allowed - keeping the flagged image', { format, attempt });
+      break;
+    }
+
+    const correction = buildFidelityCorrection(context.params, latest.fidelityIssues.map(issue => issue.rule));
+    try {
+      latest = await generateChecked(attempt, `${request.prompt}\n\n${correction}`);
+    } catch (error) {
+      // A flagged image beats no image
+      logger.warn('Fidelity retry failed - keeping the flagged image', { format, attempt, error });
+      break;
+    }
+    if (latest.fidelityIssues.length < best.fidelityIssues.length) best = latest;
+  }
+
+  return best;
+}
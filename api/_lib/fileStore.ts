@@ -0,0 +1,77 @@
+/**
+ * Local JSON Record Store
+ *
+ * Minimal keyed record persistence on local disk (one JSON file per record).
+ * The development / single-instance stand-in behind the server-side stores -
+ * production uses Redis (see recordStore.ts).
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { RecordStore } from './recordStore.js';
+
+// Vercel functions can only write to /tmp - DATA_DIR overrides for local runs
+export const DATA_DIR = process.env.DATA_DIR || path.join(os.tmpdir(), 'garagecanvas-data');
+
+const toFileName = (id: string): string => `${id.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`;
+
+// Pending replace() per record file - files are only shared when one process
+// serves every request, so queueing in this process makes replace atomic
+const replacing = new Map<string, Promise<unknown>>();
+
+export class JsonFileStore<T> implements RecordStore<T> {
+  private readonly dir: string;
+
+  constructor(collection: string) {
+    this.dir = path.join(DATA_DIR, collection);
+  }
+
+  async get(id: string): Promise<T | null> {
+    try {
+      const raw = await fs.readFile(path.join(this.dir, toFileName(id)), 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async put(id: string, value: T): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    // Write to a temp file first so readers never see a half-written record
+    const target = path.join(this.dir, toFileName(id));
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(value));
+    await fs.rename(temp, target);
+  }
+
+  async create(id: string, value: T): Promise<boolean> {
+    await fs.mkdir(this.dir, { recursive: true });
+    try {
+      // Exclusive create - fails when another request got there first
+      await fs.writeFile(path.join(this.dir, toFileName(id)), JSON.stringify(value), { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  replace(id: string, expected: T | null, value: T): Promise<boolean> {
+    const target = path.join(this.dir, toFileName(id));
+    const compareAndSet = async () => {
+      if (JSON.stringify(await this.get(id)) !== JSON.stringify(expected)) return false;
+      await this.put(id, value);
+      return true;
+    };
+
+    const result = (replacing.get(target) || Promise.resolve()).then(compareAndSet);
+    const settled = result.catch(() => undefined);
+    replacing.set(target, settled);
+    settled.then(() => {
+      if (replacing.get(target) === settled) replacing.delete(target);
+    });
+    return result;
+  }
+}
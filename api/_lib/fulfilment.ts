@@ -0,0 +1,233 @@
+/**
+ * Fulfilment
+ *
+ * Turns a paid checkout session into a generation job - shared by
+ * generate-remaining (normal return from Stripe) and recover-pack.
+ * Credit-pack customers spend one credit instead of a checkout session - and
+ * get it back when every generation attempt on it fails.
+ * Free-pack campaign codes unlock one art session each.
+ * Staff tokens can start a job for any art session without payment.
+ * Every start takes the render mode for a new job - an existing job keeps its own.
+ * Finished packs are emailed to the customer when we know their address.
+ */
+
+import { waitUntil } from '@vercel/functions';
+import {
+  attachJob,
+  claimEntitlement,
+  consumeEntitlement,
+  EntitlementError,
+  MAX_GENERATION_ATTEMPTS
+} from './entitlements.js';
+import {
+  CreditError,
+  debitCreditForArt,
+  refundCreditForArt,
+  updateLedgerEntry,
+  verifyCreditToken
+} from './credits.js';
+import { attachFreePackJob, PromoError, redeemFreePack } from './promotions.js';
+import { ArtSession, getArtSessionStore } from './artSessions.js';
+import { DEFAULT_TIER_ID, ProductTier, resolveProductTier } from './catalog.js';
+import { createJob, DEFAULT_RENDER_MODE, GenerationJob, getJob, RenderMode } from './jobs.js';
+import { runGenerationJob } from './generation.js';
+import { deliverPack } from './delivery.js';
+import type { AiProviders } from './providers/index.js';
+import { logger } from './logger.js';
+
+export interface Fulfilment {
+  job: GenerationJob;
+  started: boolean;   // false when an existing job was returned
+}
+
+/**
+ * Claim the entitlement for a checkout session and start (or resume) its job.
+ * Throws EntitlementError when the session doesn't entitle a generation.
+ */
+export async function startFulfilment(
+  stripeSessionId: unknown,
+  artSessionId: unknown,
+  providers: AiProviders,
+  renderMode: RenderMode = DEFAULT_RENDER_MODE
+): Promise<Fulfilment> {
+  // Verify payment BEFORE spending anything on Gemini
+  const { entitlement, existingJob, email } = await claimEntitlement(stripeSessionId, artSessionId);
+
+  // Refresh, back button, reopened tab: same session → same pack, no re-render
+  if (existingJob) {
+    return { job: existingJob, started: false };
+  }
+
+  // Render exactly what was paid for - inputs come from the stored art session
+  const artSession = await getArtSessionStore().get(entitlement.artSessionId);
+  if (!artSession) {
+    throw new EntitlementError(404, 'Art session not found');
+  }
+
+  const tier = resolveProductTier(entitlement.tierId);
+  const job = await launchJob(artSession, tier, providers, {
+    stripeSessionId: entitlement.stripeSessionId,
+    renderMode,
+    email,
+    onDone: () => consumeEntitlement(entitlement),
+  });
+  await attachJob(entitlement, job.id);
+
+  return { job, started: true };
+}
+
+/**
+ * Spend one credit on an art session and start (or resume) its job.
+ * Throws CreditError when the token is invalid or the balance is empty.
+ */
+export async function startCreditFulfilment(
+  creditToken: unknown,
+  artSessionId: unknown,
+  providers: AiProviders,
+  renderMode: RenderMode = DEFAULT_RENDER_MODE
+): Promise<Fulfilment & { balance: number }> {
+  const accountId = verifyCreditToken(creditToken);
+  if (!accountId) {
+    throw new CreditError(401, 'Invalid credit account');
+  }
+
+  const artSession = typeof artSessionId === 'string'
+    ? await getArtSessionStore().get(artSessionId)
+    : null;
+  if (!artSession) {
+    throw new EntitlementError(404, 'Art session not found');
+  }
+
+  // Same art session → same debit, so retries never spend a second credit
+  const { account, entry } = await debitCreditForArt(accountId, artSession.id);
+
+  if (entry.jobId) {
+    const existingJob = await getJob(entry.jobId);
+    if (existingJob && existingJob.status !== 'failed') {
+      return { job: existingJob, started: false, balance: account.balance };
+    }
+  }
+  if ((entry.attempts || 0) >= MAX_GENERATION_ATTEMPTS) {
+    // Normally refunded when the last attempt failed - not if its function was stopped
+    await refundCreditForArt(accountId, artSession.id);
+    throw new CreditError(429, 'Too many generation attempts for this artwork - your credit has been returned');
+  }
+
+  // One credit buys the standard pack
+  const attempts = (entry.attempts || 0) + 1;
+  const job = await launchJob(artSession, resolveProductTier(DEFAULT_TIER_ID), providers, {
+    email: account.email,
+    renderMode,
+    onFailed: attempts >= MAX_GENERATION_ATTEMPTS
+      ? () => refundCreditForArt(accountId, artSession.id)
+      : undefined,
+  });
+  await updateLedgerEntry(accountId, entry.id, { jobId: job.id, attempts });
+
+  return { job, started: true, balance: account.balance };
+}
+
+/**
+ * Redeem a free-pack campaign code on an art session and start (or resume) its job.
+ * Throws PromoError when the code doesn't unlock a free pack.
+ */
+export async function startPromoFulfilment(
+  promoCode: unknown,
+  artSessionId: unknown,
+  providers: AiProviders,
+  renderMode: RenderMode = DEFAULT_RENDER_MODE
+): Promise<Fulfilment> {
+  const artSession = typeof artSessionId === 'string'
+    ? await getArtSessionStore().get(artSessionId)
+    : null;
+  if (!artSession) {
+    throw new EntitlementError(404, 'Art session not found');
+  }
+
+  // Same art session → same redemption, so retries never use up the campaign
+  const { campaign, existingJobId, attempts } = await redeemFreePack(promoCode, artSession.id);
+
+  if (existingJobId) {
+    const existingJob = await getJob(existingJobId);
+    if (existingJob && existingJob.status !== 'failed') {
+      return { job: existingJob, started: false };
+    }
+  }
+  if (attempts >= MAX_GENERATION_ATTEMPTS) {
+    throw new PromoError(429, 'Too many generation attempts for this artwork');
+  }
+
+  const job = await launchJob(artSession, resolveProductTier(DEFAULT_TIER_ID), providers, { renderMode });
+  await attachFreePackJob(campaign, artSession.id, job.id, attempts + 1);
+
+  return { job, started: true };
+}
+
+/**
+ * Start a job for an art session without payment - staff tokens only.
+ * Staff can pick any tier to check its formats.
+ */
+export async function startStaffFulfilment(
+  artSessionId: unknown,
+  tierId: unknown,
+  providers: AiProviders,
+  renderMode: RenderMode = DEFAULT_RENDER_MODE
+): Promise<Fulfilment> {
+  const artSession = typeof artSessionId === 'string'
+    ? await getArtSessionStore().get(artSessionId)
+    : null;
+  if (!artSession) {
+    throw new EntitlementError(404, 'Art session not found');
+  }
+
+  const job = await launchJob(artSession, resolveProductTier(tierId), providers, { renderMode });
+  return { job, started: true };
+}
+
+interface LaunchOptions {
+  stripeSessionId?: string;
+  renderMode?: RenderMode;
+  email?: string | null;            // Deliver the finished pack here
+  onDone?: () => Promise<void>;
+  onFailed?: () => Promise<void>;
+}
+
+/**
+ * Create the job and render in the background.
+ * Returns a snapshot of the queued job.
+ * The follow-up steps (hooks, email delivery) run independently - one failing
+ * is logged and never holds back the others.
+ */
+const launchJob = async (
+  artSession: ArtSession,
+  tier: ProductTier,
+  providers: AiProviders,
+  { stripeSessionId, renderMode, email, onDone, onFailed }: LaunchOptions = {}
+): Promise<GenerationJob> => {
+  const job = await createJob(artSession.id, tier, stripeSessionId, renderMode);
+  const queued = { ...job };
+
+  const runStep = async (step: string, run: () => Promise<unknown>) => {
+    try {
+      await run();
+    } catch (error) {
+      logger.error('Fulfilment step failed', { jobId: job.id, step, error });
+    }
+  };
+
+  // Keep rendering after the response - the function stays alive until the job settles
+  waitUntil(
+    runGenerationJob(job, artSession, providers)
+      .then(async (finished) => {
+        if (finished.status === 'done') {
+          if (onDone) await runStep('onDone', onDone);
+          if (email) await runStep('delivery', () => deliverPack(finished, artSession, email));
+        } else if (onFailed) {
+          await runStep('onFailed', onFailed);
+        }
+      })
+      .catch(error => logger.error('Generation job crashed', { jobId: job.id, error }))
+  );
+
+  return queued;
+};
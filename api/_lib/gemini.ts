@@ -0,0 +1,316 @@
+/**
+ * Gemini Client Wrapper
+ *
+ * Every Gemini call goes through here: failures are classified (quota,
+ * unavailable, safety block, no image, timeout, model not usable), transient
+ * ones are retried with jittered exponential backoff, and then the next model
+ * in the call type's fallback list is tried. A model that can't serve the
+ * request at all (retired, renamed, config not supported) goes straight to
+ * the next one.
+ *
+ * Callers running under a function's maxDuration pass a deadline: the first
+ * attempt is cut short at it, and no retry is started that couldn't finish
+ * within a full call timeout - the last error is thrown instead.
+ *
+ * Fallback lists are configurable per call type with comma-separated env vars:
+ * GEMINI_ANALYSIS_MODELS, GEMINI_PREVIEW_MODELS, GEMINI_RENDER_MODELS,
+ * GEMINI_OUTPAINT_MODELS, GEMINI_REFINE_MODELS, GEMINI_AUDIT_MODELS.
+ *
+ * Every attempt is recorded for cost accounting (see usage.ts).
+ */
+
+import {
+  ApiError,
+  GoogleGenAI,
+  type GenerateContentParameters,
+  type GenerateContentResponse,
+  type ImageConfig
+} from '@google/genai';
+import { ProviderError } from './providers/types.js';
+import { logger } from './logger.js';
+import { recordAiCall } from './usage.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export type GeminiCallType = 'analysis' | 'preview' | 'render' | 'outpaint' | 'refine' | 'audit';
+
+const DEFAULT_MODELS: Record<GeminiCallType, string[]> = {
+  analysis: ['gemini-3-flash-preview', 'gemini-2.5-flash'],
+  preview: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+  render: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+  outpaint: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+  refine: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+  audit: ['gemini-3-flash-preview', 'gemini-2.5-flash'],
+};
+
+const MODEL_ENV: Record<GeminiCallType, string> = {
+  analysis: 'GEMINI_ANALYSIS_MODELS',
+  preview: 'GEMINI_PREVIEW_MODELS',
+  render: 'GEMINI_RENDER_MODELS',
+  outpaint: 'GEMINI_OUTPAINT_MODELS',
+  refine: 'GEMINI_REFINE_MODELS',
+  audit: 'GEMINI_AUDIT_MODELS',
+};
+
+// Image calls routinely take 30-60s - the timeout only catches hung requests
+const CALL_TIMEOUT_MS: Record<GeminiCallType, number> = {
+  analysis: 45_000,
+  preview: 120_000,
+  render: 120_000,
+  outpaint: 120_000,
+  refine: 120_000,
+  audit: 45_000,
+};
+
+const ATTEMPTS_PER_MODEL = 2;
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 8_000;
+
+export const getModels = (callType: GeminiCallType): string[] => {
+  const configured = process.env[MODEL_ENV[callType]]
+    ?.split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+  return configured?.length ? configured : DEFAULT_MODELS[callType];
+};
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export type GeminiErrorKind = 'quota' | 'unavailable' | 'safety' | 'no_image' | 'timeout' | 'invalid_response' | 'model' | 'unknown';
+
+const ERROR_DETAILS: Record<GeminiErrorKind, { status: number; message: string; retryable: boolean }> = {
+  quota: { status: 429, message: 'The AI service is busy right now. Please try again in a minute.', retryable: true },
+  unavailable: { status: 503, message: 'The AI service is temporarily unavailable. Please try again.', retryable: true },
+  safety: { status: 422, message: "This photo couldn't be processed. Please try a different photo.", retryable: false },
+  no_image: { status: 502, message: 'No image was generated. Please try again.', retryable: true },
+  timeout: { status: 504, message: 'The AI service took too long to respond. Please try again.', retryable: true },
+  invalid_response: { status: 502, message: 'The AI service returned an unexpected response. Please try again.', retryable: true },
+  // Not worth retrying on the same model - callGemini moves to the next one
+  model: { status: 503, message: 'The AI service is temporarily unavailable. Please try again.', retryable: false },
+  unknown: { status: 500, message: 'Something went wrong with the AI service. Please try again.', retryable: false },
+};
+
+/**
+ * Classified Gemini failure. `message` is safe to show to customers;
+ * the underlying error is kept as `cause` for logs.
+ */
+export class GeminiError extends ProviderError {
+  public retryable: boolean;
+
+  constructor(public kind: GeminiErrorKind, public cause?: unknown) {
+    super(ERROR_DETAILS[kind].status, ERROR_DETAILS[kind].message);
+    this.name = 'GeminiError';
+    this.retryable = ERROR_DETAILS[kind].retryable;
+  }
+}
+
+export function classifyGeminiError(error: unknown): GeminiError {
+  if (error instanceof GeminiError) return error;
+
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new GeminiError('quota', error);
+    if (error.status >= 500) return new GeminiError('unavailable', error);
+    if (/safety|blocked/i.test(error.message)) return new GeminiError('safety', error);
+    // Retired or renamed model (NOT_FOUND), or a config this model doesn't support
+    if (error.status === 404 || (error.status === 400 && /model|not supported|unsupported/i.test(error.message))) {
+      return new GeminiError('model', error);
+    }
+    return new GeminiError('unknown', error);
+  }
+
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+    return new GeminiError('timeout', error);
+  }
+  if (error instanceof Error && /fetch failed|ECONNRESET|ETIMEDOUT|socket hang up/i.test(error.message)) {
+    return new GeminiError('unavailable', error);
+  }
+  return new GeminiError('unknown', error);
+}
+
+// Finish reasons that mean the output was withheld, not that the model failed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+const isBlocked = (response: GenerateContentResponse): boolean =>
+  !!response.promptFeedback?.blockReason ||
+  BLOCKED_FINISH_REASONS.includes(String(response.candidates?.[0]?.finishReason));
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+// Prompt size and input image count of a request - for the usage records
+const measureContents = (contents: unknown): { promptChars: number; imageCount: number } => {
+  const size = { promptChars: 0, imageCount: 0 };
+  const visit = (node: any) => {
+    if (typeof node === 'string') size.promptChars += node.length;
+    else if (Array.isArray(node)) node.forEach(visit);
+    else if (node?.parts) visit(node.parts);
+    else if (node?.inlineData) size.imageCount++;
+    else if (typeof node?.text === 'string') size.promptChars += node.text.length;
+  };
+  visit(contents);
+  return size;
+};
+
+const recordCall = (
+  callType: GeminiCallType,
+  model: string,
+  request: Omit<GenerateContentParameters, 'model'>,
+  startedAt: number,
+  response: GenerateContentResponse | undefined,
+  error?: GeminiError
+) => {
+  const usage = response?.usageMetadata;
+  return recordAiCall({
+    provider: 'gemini',
+    callType,
+    model,
+    ok: !error,
+    errorKind: error?.kind,
+    latencyMs: Date.now() - startedAt,
+    ...measureContents(request.contents),
+    inputTokens: usage?.promptTokenCount,
+    // Thinking tokens are billed as output
+    outputTokens: usage ? (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0) : undefined,
+  });
+};
+
+// ============================================================================
+// CALLS
+// ============================================================================
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Full jitter: anywhere between 0 and the exponential cap
+const backoffDelay = (attempt: number): number =>
+  Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+
+/**
+ * Call generateContent with retries and model fallback, then run `parse` on
+ * the response. `parse` may throw a GeminiError (e.g. no_image) to trigger
+ * another attempt. Throws the last GeminiError once every model has failed
+ * or the deadline (epoch ms) leaves no time for another attempt.
+ */
+export async function callGemini<T>(
+  apiKey: string,
+  callType: GeminiCallType,
+  request: Omit<GenerateContentParameters, 'model'>,
+  parse: (response: GenerateContentResponse) => T,
+  deadline?: number
+): Promise<T> {
+  const ai = new GoogleGenAI({ apiKey });
+  let lastError: GeminiError = new GeminiError('timeout');
+  let calls = 0;
+
+  for (const model of getModels(callType)) {
+    for (let attempt = 0; attempt < ATTEMPTS_PER_MODEL; attempt++) {
+      const remaining = deadline === undefined ? Infinity : deadline - Date.now();
+      if (remaining <= 0 || (calls > 0 && remaining < CALL_TIMEOUT_MS[callType])) {
+        logger.warn('Gemini deadline reached - not retrying', { callType, calls, remainingMs: Math.max(0, remaining) });
+        throw lastError;
+      }
+      calls++;
+
+      const startedAt = Date.now();
+      let response: GenerateContentResponse | undefined;
+      try {
+        response = await ai.models.generateContent({
+          ...request,
+          model,
+          config: {
+            ...request.config,
+            abortSignal: AbortSignal.timeout(Math.min(CALL_TIMEOUT_MS[callType], remaining)),
+          },
+        });
+        if (isBlocked(response)) {
+          throw new GeminiError('safety');
+        }
+        const result = parse(response);
+        await recordCall(callType, model, request, startedAt, response);
+        return result;
+      } catch (error) {
+        lastError = classifyGeminiError(error);
+        await recordCall(callType, model, request, startedAt, response, lastError);
+        logger.warn('Gemini call failed', { callType, model, attempt: attempt + 1, kind: lastError.kind, cause: (lastError.cause as any)?.message });
+
+        if (lastError.kind === 'model') break;
+        // A blocked photo will be blocked by every model too
+        if (!lastError.retryable) throw lastError;
+        if (attempt < ATTEMPTS_PER_MODEL - 1) await sleep(backoffDelay(attempt));
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Image generation - returns the first inline image of the response
+ */
+export function generateImage(
+  apiKey: string,
+  callType: Exclude<GeminiCallType, 'analysis' | 'audit'>,
+  parts: NonNullable<GenerateContentParameters['contents']>,
+  imageConfig?: ImageConfig,
+  deadline?: number
+): Promise<{ data: string; mimeType: string }> {
+  return callGemini(
+    apiKey,
+    callType,
+    { contents: parts, config: { responseModalities: ['image', 'text'], ...(imageConfig ? { imageConfig } : {}) } },
+    (response) => {
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+          return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+        }
+      }
+      throw new GeminiError('no_image');
+    },
+    deadline
+  );
+}
+
+/**
+ * Structured JSON output - retries when the model returns something unparseable
+ */
+export function generateJson<T>(
+  apiKey: string,
+  callType: GeminiCallType,
+  request: Omit<GenerateContentParameters, 'model'>,
+  deadline?: number
+): Promise<T> {
+  return callGemini(apiKey, callType, request, (response) => {
+    try {
+      return JSON.parse(response.text || '') as T;
+    } catch (error) {
+      throw new GeminiError('invalid_response', error);
+    }
+  }, deadline);
+}
+
+// ============================================================================
+// HEALTH
+// ============================================================================
+
+const CHECK_TIMEOUT_MS = 10_000;
+
+/**
+ * Look up every configured model for the call types - verifies the API key
+ * and model names without generating (or paying for) anything
+ */
+export async function checkModels(apiKey: string, callTypes: GeminiCallType[]): Promise<void> {
+  const ai = new GoogleGenAI({ apiKey });
+  const models = [...new Set(callTypes.flatMap(getModels))];
+
+  for (const model of models) {
+    try {
+      await ai.models.get({ model, config: { abortSignal: AbortSignal.timeout(CHECK_TIMEOUT_MS) } });
+    } catch (error) {
+      throw new Error(`${model}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Full-Pack Generation Runner
+ *
+ * Renders the formats of the purchased tier (Desktop, Print, extra print sizes)
+ * from a stored art session, using the approved phone preview as style
+ * reference. The formats render side by side, each recording its progress on
+ * the job as it goes. Every
+ * image is fitted to its format's exact pixel size (see imageOutput.ts) and
+ * stored as its own art file as soon as it is done (see artFiles.ts) - the
+ * job only records which formats the pack has.
+ *
+ * The job's render mode picks how each format is derived: a fresh generation
+ * per format (regenerate), or the preview placed on the wider canvas with only
+ * the background generated around it (outpaint - see outpaint.ts). Both are
+ * logged per format and costed under their own call type, so the modes can be
+ * compared on the same art session by staff.
+ *
+ * Regenerated formats are audited against the source photo (see
+ * fidelityAudit.ts); formats that still break a hard rule are flagged in the
+ * result. Outpainted formats keep the already-audited preview's vehicle.
+ */
+
+import { buildBasePrompt, buildFollowUpGenerationPrompt, buildOutpaintPrompt } from '../templates.js';
+import type { ArtSession } from './artSessions.js';
+import { resolveProductTier } from './catalog.js';
+import { ProviderError, type AiProviders } from './providers/index.js';
+import { fitToFormat, generateForFormat, type SizedImage } from './imageOutput.js';
+import { createOutpaintCanvas, restoreOutpaintArt } from './outpaint.js';
+import { generateAudited, type AuditedImage } from './fidelityAudit.js';
+import { saveArtFile } from './artFiles.js';
+import { FormatStatus, GeneratedArtSet, GenerationJob, JobFormat, updateJob } from './jobs.js';
+import { logger } from './logger.js';
+
+export async function runGenerationJob(
+  job: GenerationJob,
+  artSession: ArtSession,
+  providers: AiProviders
+): Promise<GenerationJob> {
+  const { sourceImage, previewArt, previewMimeType } = artSession;
+
+  // Build SECRET prompts (never exposed to client)
+  const basePrompt = buildBasePrompt(artSession.params);
+  // No Gemini retries the job's function won't live to see
+  const deadline = Date.parse(job.deadlineAt);
+
+  // Generate with the phone preview as reference image
+  const generateWithReference = async (format: JobFormat): Promise<AuditedImage> => {
+    const fullPrompt = buildFollowUpGenerationPrompt(basePrompt, format);
+
+    return generateAudited(providers, {
+      kind: 'render',
+      prompt: fullPrompt,
+      images: [
+        { mimeType: previewMimeType, data: previewArt },
+        { mimeType: "image/jpeg", data: sourceImage }
+      ],
+      deadline
+    }, format, { params: artSession.params, sourceImage });
+  };
+
+  // Extend the background around the phone art - the vehicle pixels are kept as-is
+  const outpaintAroundPreview = async (format: JobFormat, phone: SizedImage): Promise<SizedImage> => {
+    const canvas = await createOutpaintCanvas(phone, format);
+    const outpainted = await generateForFormat(providers.image, {
+      kind: 'outpaint',
+      prompt: buildOutpaintPrompt(format),
+      images: [canvas.image],
+      deadline
+    }, format);
+    return restoreOutpaintArt(outpainted, canvas);
+  };
+
+  const rendered: Partial<Record<JobFormat, SizedImage & Partial<AuditedImage>>> = {};
+  const formats = Object.keys(job.formats) as JobFormat[];
+
+  // Formats finish in any order - job updates are chained so none is overwritten by an older one
+  let updates: Promise<unknown> = Promise.resolve();
+  const setFormatStatus = (format: JobFormat, status: FormatStatus): Promise<unknown> => {
+    const update = updates.then(() => updateJob(job, { formats: { ...job.formats, [format]: status } }));
+    updates = update.catch(() => undefined);
+    return update;
+  };
+
+  const renderFormat = async (format: JobFormat, phone: SizedImage): Promise<void> => {
+    await setFormatStatus(format, 'rendering');
+    const startedAt = Date.now();
+    try {
+      const image = job.renderMode === 'outpaint'
+        ? await outpaintAroundPreview(format, phone)
+        : await generateWithReference(format);
+      logger.info('Format rendered', { jobId: job.id, format, renderMode: job.renderMode, latencyMs: Date.now() - startedAt });
+      await saveArtFile(job.id, format, image);
+      rendered[format] = image;
+    } catch (error) {
+      logger.warn('Format failed', { jobId: job.id, format, error });
+      await setFormatStatus(format, 'failed');
+      throw error;
+    }
+    await setFormatStatus(format, 'done');
+  };
+
+  try {
+    await updateJob(job, { status: 'running', progress: `rendering ${formats.join(', ')}` });
+
+    // Reuse the preview - already phone-sized for sessions stored since sizing was enforced
+    const phone = await fitToFormat({ data: previewArt, mimeType: previewMimeType }, 'phone');
+    await saveArtFile(job.id, 'phone', phone);
+
+    // One after another, a print pack's formats don't fit in the job's time. Each
+    // format also has all of it for fidelity retries, as none waits on another.
+    // Settled rather than all, so a failed format doesn't leave the rest running unawaited.
+    const results = await Promise.allSettled(formats.map(format => renderFormat(format, phone)));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) throw failure.reason;
+
+    const tier = resolveProductTier(job.tierId);
+    const dimensions: GeneratedArtSet['dimensions'] = { phone: { width: phone.width, height: phone.height } };
+    const mimeTypes: GeneratedArtSet['mimeTypes'] = { phone: phone.mimeType };
+    const fidelityIssues: GeneratedArtSet['fidelityIssues'] = {};
+    for (const [format, image] of Object.entries(rendered)) {
+      dimensions[format as JobFormat] = { width: image.width, height: image.height };
+      mimeTypes[format as JobFormat] = image.mimeType;
+      if (image.fidelityIssues?.length) fidelityIssues[format as JobFormat] = image.fidelityIssues;
+    }
+
+    return await updateJob(job, {
+      status: 'done',
+      progress: 'done',
+      result: {
+        tierId: tier.id,
+        formats: tier.formats,
+        dimensions,
+        fidelityIssues,
+        mimeTypes,
+        mimeType: phone.mimeType
+      },
+    });
+  } catch (error: any) {
+    logger.error('Generation job failed', { jobId: job.id, error });
+    await updates;
+    return await updateJob(job, {
+      status: 'failed',
+      progress: 'failed',
+      // Provider messages are written for customers - anything else stays in the logs
+      error: error instanceof ProviderError ? error.message : 'Generation failed',
+    });
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Health & Configuration Status
+ *
+ * What /api/health reports: whether analysis/generation, checkout, shared
+ * record storage and email are configured, and which models and Stripe price
+ * IDs are in use. The app
+ * checks it on load and shows a maintenance banner instead of letting
+ * customers upload into a pipeline that can't finish.
+ *
+ * Configuration status only reads env/config. Connectivity checks make real
+ * (but free) calls - a model metadata lookup and a price lookup - and are
+ * only run for staff.
+ */
+
+import { getAiProviderName, getAiProviders } from './providers/index.js';
+import { getModels, type GeminiCallType } from './gemini.js';
+import { getStripe } from './stripe.js';
+import { PRODUCT_TIERS, getPurchasableTiers } from './catalog.js';
+import { CREDIT_PACKS } from './credits.js';
+import { isSandbox } from './sandbox.js';
+import { getRedis, getStorageStatus, type StorageStatus } from './recordStore.js';
+import { getMailStatus, type MailStatus } from './mailer.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ConfigStatus {
+  ready: boolean;               // Customers can upload, preview and pay
+  sandbox: boolean;
+  ai: {
+    provider: string;
+    configured: boolean;
+    models: Record<GeminiCallType, string[]> | null;   // Fallback order - Gemini only
+  };
+  payments: {
+    configured: boolean;        // Stripe client + at least one purchasable tier
+    webhookConfigured: boolean;
+    tiers: { id: string; priceId: string | null }[];
+    creditPacks: { id: string; priceId: string | null }[];
+  };
+  storage: StorageStatus;       // Not shared - paid packs could be lost between instances
+  mail: MailStatus;             // Not configured - packs still download in the app, but order emails are lost
+}
+
+export interface ConnectivityCheck {
+  name: string;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export function getConfigStatus(): ConfigStatus {
+  const provider = getAiProviderName();
+  const aiConfigured = !!getAiProviders();
+  const paymentsConfigured = !!getStripe() && getPurchasableTiers().length > 0;
+  const storage = getStorageStatus();
+
+  return {
+    ready: aiConfigured && paymentsConfigured && storage.shared,
+    sandbox: isSandbox(),
+    ai: {
+      provider,
+      configured: aiConfigured,
+      models: provider === 'gemini'
+        ? {
+            analysis: getModels('analysis'),
+            preview: getModels('preview'),
+            render: getModels('render'),
+            outpaint: getModels('outpaint'),
+            refine: getModels('refine'),
+            audit: getModels('audit'),
+          }
+        : null,
+    },
+    payments: {
+      configured: paymentsConfigured,
+      // The sandbox never sends webhooks
+      webhookConfigured: isSandbox() || !!process.env.STRIPE_WEBHOOK_SECRET,
+      tiers: PRODUCT_TIERS.map(tier => ({ id: tier.id, priceId: tier.priceId || null })),
+      creditPacks: CREDIT_PACKS.map(pack => ({ id: pack.id, priceId: pack.priceId || null })),
+    },
+    storage,
+    mail: getMailStatus(),
+  };
+}
+
+// ============================================================================
+// CONNECTIVITY - staff only
+// ============================================================================
+
+const runCheck = async (name: string, check: () => Promise<unknown>): Promise<ConnectivityCheck> => {
+  const startedAt = Date.now();
+  try {
+    await check();
+    return { name, ok: true, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      name,
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * One check per AI provider, per configured Stripe price and for Redis. Never throws -
+ * failures are reported in the results.
+ */
+export async function runConnectivityChecks(): Promise<ConnectivityCheck[]> {
+  const checks: Promise<ConnectivityCheck>[] = [];
+
+  const providers = getAiProviders();
+  if (providers?.analysis.checkConnection) {
+    checks.push(runCheck('ai:analysis', () => providers.analysis.checkConnection!()));
+  }
+  if (providers?.image.checkConnection) {
+    checks.push(runCheck('ai:image', () => providers.image.checkConnection!()));
+  }
+
+  // Retrieving each price verifies the key and that the price IDs exist in this Stripe account
+  const stripe = getStripe();
+  if (stripe) {
+    const priceIds = [...PRODUCT_TIERS, ...CREDIT_PACKS]
+      .map(item => item.priceId)
+      .filter((priceId): priceId is string => !!priceId);
+    for (const priceId of new Set(priceIds)) {
+      checks.push(runCheck(`stripe:${priceId}`, () => stripe.prices.retrieve(priceId)));
+    }
+  }
+
+  const redis = getRedis();
+  if (redis) {
+    checks.push(runCheck('storage:redis', () => redis.ping()));
+  }
+
+  return Promise.all(checks);
+}
@@ -0,0 +1,135 @@
+/**
+ * Exact-Size Output
+ *
+ * The catalog advertises exact pixel sizes (1080×2340 phone, 3840×2160
+ * desktop, ...), but image models return their own sizes and not always the
+ * requested ratio. Every image a customer gets goes through here:
+ *
+ * 1. Measure the returned image
+ * 2. Reject it when the ratio is too far off to fix - the caller retries
+ * 3. Crop small ratio differences (the compositions keep the vehicle
+ *    centred with margins), letterbox larger ones with the dominant colour
+ * 4. Resample to the format's exact pixel dimensions
+ * 5. Encode as JPEG - even the poster stays a few MB (as PNG it is ~15MB,
+ *    too big to store or download in one piece), and the phone preview fits
+ *    the request body limits it travels back in (see requestSchemas.ts)
+ */
+
+import sharp, { type Sharp } from 'sharp';
+import type { ArtFormat } from '../../shared/schema.js';
+import { ART_FORMATS } from './catalog.js';
+import { ProviderError, type ImageData, type ImageProvider, type ImageRequest, type ImageSize } from './providers/index.js';
+import { logger } from './logger.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Ratio differences on a log scale - 0.25 is about 28% wider or taller than asked.
+// A 9:16 model output for the 9:19.5 phone format is still cropped.
+const CROP_TOLERANCE = 0.25;
+const LETTERBOX_TOLERANCE = 0.35;
+
+// Wrong-ratio images are re-requested this many times in total before giving up
+const ATTEMPTS_PER_FORMAT = 2;
+
+// Print shops' usual quality - no visible artefacts at full size
+const JPEG_QUALITY = 92;
+
+export const OUTPUT_MIME_TYPE = 'image/jpeg';
+
+/**
+ * Encode a finished image as the customer gets it
+ */
+export async function encodeArt(image: Sharp): Promise<ImageData> {
+  const output = await image.flatten().jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).toBuffer();
+  return { data: output.toString('base64'), mimeType: OUTPUT_MIME_TYPE };
+}
+
+export const getFormatSize = (format: ArtFormat): ImageSize => ({
+  width: ART_FORMATS[format].width,
+  height: ART_FORMATS[format].height,
+});
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SizedImage extends ImageData {
+  width: number;
+  height: number;
+}
+
+/**
+ * The image's ratio is too far from the format's to crop or letterbox
+ */
+export class AspectRatioError extends Error {
+  constructor(public format: ArtFormat, public width: number, public height: number) {
+    super(`Image is ${width}×${height}, too far from the ${format} ratio`);
+    this.name = 'AspectRatioError';
+  }
+}
+
+// ============================================================================
+// FITTING
+// ============================================================================
+
+const ratioDistance = (a: ImageSize, b: ImageSize): number =>
+  Math.abs(Math.log((a.width / a.height) / (b.width / b.height)));
+
+/**
+ * Fit an image to the format's exact pixel size. Always returns JPEG.
+ * Throws AspectRatioError when the ratio can't be fixed.
+ */
+export async function fitToFormat(image: ImageData, format: ArtFormat): Promise<SizedImage> {
+  const target = getFormatSize(format);
+  const input = Buffer.from(image.data, 'base64');
+  const { width = 0, height = 0 } = await sharp(input).metadata();
+
+  // Already exact (e.g. a preview that went through here before)
+  if (width === target.width && height === target.height && image.mimeType === OUTPUT_MIME_TYPE) {
+    return { ...image, width, height };
+  }
+
+  const distance = ratioDistance({ width, height }, target);
+  if (!width || !height || distance > LETTERBOX_TOLERANCE) {
+    throw new AspectRatioError(format, width, height);
+  }
+
+  const crop = distance <= CROP_TOLERANCE;
+  // Letterbox with the image's dominant colour - the backgrounds are flat sky and ground
+  const resize = crop
+    ? { ...target, fit: 'cover' as const, position: 'centre' }
+    : { ...target, fit: 'contain' as const, background: { ...(await sharp(input).stats()).dominant, alpha: 1 } };
+
+  const output = await encodeArt(sharp(input).resize(resize));
+  logger.info('Image fitted to format', {
+    format,
+    from: `${width}x${height}`,
+    to: `${target.width}x${target.height}`,
+    mode: crop ? 'crop' : 'letterbox',
+  });
+  return { ...output, ...target };
+}
+
+/**
+ * Generate an image for a format and fit it to the exact size, re-requesting
+ * it when the model returns a ratio that can't be fixed
+ */
+export async function generateForFormat(
+  provider: ImageProvider,
+  request: Omit<ImageRequest, 'size'>,
+  format: ArtFormat
+): Promise<SizedImage> {
+  for (let attempt = 1; attempt <= ATTEMPTS_PER_FORMAT; attempt++) {
+    const image = await provider.generateImage({ ...request, size: getFormatSize(format) });
+    try {
+      return await fitToFormat(image, format);
+    } catch (error) {
+      if (!(error instanceof AspectRatioError)) throw error;
+      logger.warn('Rejected image with wrong aspect ratio', { format, attempt, width: error.width, height: error.height });
+    }
+  }
+
+  throw new ProviderError(502, 'The artwork came out in the wrong shape. Please try again.');
+}
@@ -0,0 +1,177 @@
+/**
+ * Generation Jobs
+ *
+ * Full-pack generation runs as a job so no single request has to hold a
+ * connection open while Gemini renders every format. Clients poll
+ * /api/generation-status (or follow its SSE stream) for per-format progress.
+ *
+ * A job renders in the background of the request that launched it, and
+ * Vercel stops that work at the route's maxDuration without a word. A job
+ * still queued or running past its deadline is therefore treated as failed
+ * when read (getJob), so clients stop waiting and a retry can be claimed.
+ */
+
+import { randomUUID } from 'crypto';
+import { createRecordStore } from './recordStore.js';
+import { getArtFileUrl } from './artFiles.js';
+import type { ProductTier } from './catalog.js';
+import type { ImageSize } from './providers/index.js';
+import type { ArtFormat, FidelityIssue, ProductTierId } from '../../shared/schema.js';
+import { logger } from './logger.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Every format except phone, which reuses the approved preview
+export type JobFormat = Exclude<ArtFormat, 'phone'>;
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export type FormatStatus = 'queued' | 'rendering' | 'done' | 'failed';
+
+// How formats are derived from the phone preview (see generation.ts):
+// regenerate - a fresh generation per format, with the preview as style reference
+// outpaint   - the preview placed on the wider canvas, only the background is generated
+export type RenderMode = 'regenerate' | 'outpaint';
+
+export const RENDER_MODES: RenderMode[] = ['regenerate', 'outpaint'];
+export const DEFAULT_RENDER_MODE: RenderMode = 'regenerate';
+
+// Jobs are launched by routes with maxDuration 300 (vercel.json) - the
+// deadline leaves room for the launching request itself
+export const JOB_TIMEOUT_MS = 280 * 1000;
+
+const TIMED_OUT_ERROR = 'Generation timed out. Please try again.';
+
+export interface GeneratedArtSet {
+  tierId: ProductTierId;
+  formats: ArtFormat[];                         // Everything the tier entitles, in display order - one art file each (see artFiles.ts)
+  images?: Partial<Record<ArtFormat, string>>;  // Base64 per format - only sets stored before art files
+  dimensions: Partial<Record<ArtFormat, ImageSize>>;   // Final pixel size per format
+  fidelityIssues?: Partial<Record<ArtFormat, FidelityIssue[]>>;   // Only formats still breaking a hard rule
+  mimeTypes: Partial<Record<ArtFormat, string>>;   // Per format
+  mimeType: string;             // The phone format's - for clients reading a single type
+}
+
+export interface GenerationJob {
+  id: string;
+  artSessionId: string;
+  stripeSessionId?: string;
+  tierId: ProductTierId;
+  renderMode: RenderMode;
+  status: JobStatus;
+  formats: Partial<Record<JobFormat, FormatStatus>>;   // Only the formats to render
+  progress: string;             // e.g. "queued", "rendering desktop, print", "done"
+  result?: GeneratedArtSet;     // Only present once status is 'done'
+  error?: string;
+  createdAt: string;
+  updatedAt: string;            // Bumped on every progress step
+  deadlineAt: string;           // Still queued/running after this - the background work was stopped
+}
+
+export interface JobStore {
+  get(id: string): Promise<GenerationJob | null>;
+  save(job: GenerationJob): Promise<void>;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class RecordJobStore implements JobStore {
+  private records = createRecordStore<GenerationJob>('jobs');
+
+  get(id: string) {
+    return this.records.get(id);
+  }
+
+  save(job: GenerationJob) {
+    return this.records.put(job.id, job);
+  }
+}
+
+let store: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (!store) store = new RecordJobStore();
+  return store;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export async function createJob(
+  artSessionId: string,
+  tier: ProductTier,
+  stripeSessionId?: string,
+  renderMode: RenderMode = DEFAULT_RENDER_MODE
+): Promise<GenerationJob> {
+  const now = new Date().toISOString();
+  const formats: Partial<Record<JobFormat, FormatStatus>> = {};
+  for (const format of tier.formats) {
+    if (format !== 'phone') formats[format] = 'queued';
+  }
+
+  const job: GenerationJob = {
+    id: `job_${randomUUID()}`,
+    artSessionId,
+    stripeSessionId,
+    tierId: tier.id,
+    renderMode,
+    status: 'queued',
+    formats,
+    progress: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    deadlineAt: new Date(Date.parse(now) + JOB_TIMEOUT_MS).toISOString(),
+  };
+  await getJobStore().save(job);
+  return job;
+}
+
+export async function updateJob(job: GenerationJob, changes: Partial<GenerationJob>): Promise<GenerationJob> {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  await getJobStore().save(job);
+  return job;
+}
+
+/**
+ * Load a job, failing it first if it outlived its deadline - use this rather
+ * than the store whenever the status matters
+ */
+export async function getJob(id: string): Promise<GenerationJob | null> {
+  const job = await getJobStore().get(id);
+  if (!job || job.status === 'done' || job.status === 'failed') return job;
+  if (Date.now() <= Date.parse(job.deadlineAt)) return job;
+
+  logger.warn('Generation job timed out', { jobId: job.id, progress: job.progress, updatedAt: job.updatedAt });
+  const formats = { ...job.formats };
+  for (const format of Object.keys(formats) as JobFormat[]) {
+    if (formats[format] !== 'done') formats[format] = 'failed';
+  }
+  return updateJob(job, { status: 'failed', formats, progress: 'failed', error: TIMED_OUT_ERROR });
+}
+
+// Inline images never leave the server - each format is downloaded on its own
+const withDownloads = (jobId: string, { images: _images, ...result }: GeneratedArtSet) => ({
+  ...result,
+  downloads: Object.fromEntries(result.formats.map(format => [format, getArtFileUrl(jobId, format)])) as Partial<Record<ArtFormat, string>>,
+});
+
+/**
+ * Client-facing view - the result is only sent once the job is done, with a
+ * download URL per format instead of the images
+ */
+export const toJobStatus = (job: GenerationJob, includeResult: boolean) => ({
+  id: job.id,
+  tierId: job.tierId,
+  renderMode: job.renderMode,
+  status: job.status,
+  formats: job.formats,
+  progress: job.progress,
+  error: job.error,
+  ...(includeResult && job.status === 'done' && job.result ? { result: withDownloads(job.id, job.result) } : {}),
+});
+
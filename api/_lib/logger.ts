@@ -0,0 +1,83 @@
+/**
+ * Structured Logging
+ *
+ * One JSON object per line, so log search can filter on any field:
+ *   {"time":"…","level":"info","message":"Checkout created","requestId":"req_…","route":"/api/create-checkout-session",…}
+ *
+ * withApi gives every request an ID (also sent to the client as the
+ * X-Request-Id response header) and runs the handler inside a request
+ * context, so anything logged while handling it - including background
+ * generation jobs it starts - carries the same requestId.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+// ============================================================================
+// REQUEST CONTEXT
+// ============================================================================
+
+export interface RequestContext {
+  requestId: string;
+  route: string;
+  method: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+export const createRequestId = (): string => `req_${randomUUID().replace(/-/g, '')}`;
+
+export const withRequestContext = <T>(context: RequestContext, fn: () => T): T =>
+  requestContext.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined => requestContext.getStore();
+
+// ============================================================================
+// LOGGER
+// ============================================================================
+
+export type LogLevel = 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+// Errors don't survive JSON.stringify - keep what is useful for debugging
+const serializeError = (error: Error): LogFields => ({
+  name: error.name,
+  message: error.message,
+  ...('status' in error ? { status: error.status } : {}),
+  ...('kind' in error ? { kind: error.kind } : {}),
+  stack: error.stack,
+});
+
+const serializeFields = (fields: LogFields): LogFields =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value])
+  );
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    message,
+    ...getRequestContext(),
+    ...serializeFields(fields),
+  };
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ time: entry.time, level, message, requestId: entry.requestId, unserializable: true });
+  }
+
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+export const logger = {
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
@@ -0,0 +1,172 @@
+/**
+ * API Middleware
+ *
+ * withApi wraps every route handler with the shared request plumbing:
+ * - CORS for an origin allowlist (the app's own origin is always allowed;
+ *   FRONTEND_URL and CORS_ALLOWED_ORIGINS add more, e.g. partner sites).
+ *   Browser requests from any other origin are refused with a 403 before
+ *   they can spend AI or payment calls.
+ * - OPTIONS preflight and the 405 method check
+ * - A 413 for bodies over Vercel's 4.5MB limit, so `vercel dev` and the
+ *   sandbox refuse what production would
+ * - Optional body validation - the parsed body is passed to the handler,
+ *   and ValidationErrors become structured 400s
+ * - Optional rate limit, on POST requests unless the route says otherwise
+ *   (see rateLimit.ts)
+ * - A request ID (X-Request-Id response header) and request context for
+ *   structured logs (see logger.ts), plus one log line per request
+ *
+ * CORS_ALLOWED_ORIGINS is a comma-separated list of origins; a leading
+ * wildcard subdomain is allowed (https://*.partner.com).
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { checkRateLimit, getClientIp, type RateLimitName } from './rateLimit.js';
+import { parseBody, sendValidationError, ValidationError, type Validator } from './validation.js';
+import { createRequestId, logger, REQUEST_ID_HEADER, withRequestContext } from './logger.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HttpMethod = 'GET' | 'POST';
+
+export interface ApiOptions<B> {
+  methods: HttpMethod[];
+  cors?: boolean;               // Default true - false for routes browsers never call (webhooks, emailed links)
+  rateLimit?: RateLimitName;
+  rateLimitMethods?: HttpMethod[];       // Requests the limit counts - default POST only
+  rateLimitCost?: (body: B) => number;   // Hits the request counts as - default 1
+  validate?: Validator<B>;      // Request body schema - checked for POST requests
+}
+
+/**
+ * `body` is the validated request body (POST requests on routes with a
+ * `validate` schema), undefined otherwise
+ */
+export type ApiHandler<B> = (req: VercelRequest, res: VercelResponse, body: B) => unknown;
+
+// Every custom header the app sends - one list keeps preflights simple
+const ALLOWED_HEADERS = ['Content-Type', 'X-Device-Id', 'X-Staff-Token', 'X-Credit-Token'];
+const EXPOSED_HEADERS = ['Retry-After', REQUEST_ID_HEADER];
+
+// Vercel rejects larger request bodies before the function runs
+export const MAX_BODY_BYTES = 4_500_000;
+
+// ============================================================================
+// CORS
+// ============================================================================
+
+const toOrigin = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+export const getAllowedOrigins = (): string[] => [
+  ...(process.env.FRONTEND_URL ? [toOrigin(process.env.FRONTEND_URL)] : []),
+  ...(process.env.CORS_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim().replace(/\/$/, '')),
+].filter((origin): origin is string => !!origin);
+
+const matchesOrigin = (origin: string, allowed: string): boolean => {
+  if (!allowed.includes('*.')) return origin === allowed;
+  const [scheme, host] = allowed.split('*.');
+  return origin.startsWith(scheme) && origin.endsWith(`.${host}`);
+};
+
+export function isAllowedOrigin(req: VercelRequest, origin: string): boolean {
+  // Same-origin requests (the app itself, preview deploys, vercel dev)
+  if (toOrigin(origin) && new URL(origin).host === req.headers.host) return true;
+  return getAllowedOrigins().some(allowed => matchesOrigin(origin, allowed));
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+export function withApi<B = undefined>(options: ApiOptions<B>, handler: ApiHandler<B>) {
+  const cors = options.cors ?? true;
+  const allow = options.methods.join(', ');
+
+  return (req: VercelRequest, res: VercelResponse) => {
+    const requestId = createRequestId();
+    const route = (req.url || '').split('?')[0];
+    const startedAt = Date.now();
+
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    res.on('finish', () => {
+      logger.info('Request completed', { requestId, route, method: req.method, status: res.statusCode, durationMs: Date.now() - startedAt });
+    });
+
+    return withRequestContext({ requestId, route, method: req.method || '' }, () => handle(req, res));
+  };
+
+  async function handle(req: VercelRequest, res: VercelResponse) {
+    const origin = req.headers.origin;
+
+    // Requests without an Origin header are not from a browser page - CORS doesn't apply
+    if (cors && origin) {
+      if (!isAllowedOrigin(req, origin)) {
+        logger.warn('Origin not allowed', { origin });
+        return res.status(403).json({ error: 'Origin not allowed' });
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', `${allow}, OPTIONS`);
+      res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS.join(', '));
+      res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS.join(', '));
+    }
+
+    // Handle preflight
+    if (cors && req.method === 'OPTIONS') {
+      return res.status(200).end();
+    }
+
+    if (!options.methods.includes(req.method as HttpMethod)) {
+      res.setHeader('Allow', allow);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      logger.warn('Request body too large', { bytes: Number(req.headers['content-length']) });
+      return res.status(413).json({
+        error: { code: 'too_large', message: 'This request is too large. Please try a smaller photo.', field: 'body' }
+      });
+    }
+
+    try {
+      // Malformed requests are rejected before they count against the limit
+      const body = options.validate && req.method === 'POST'
+        ? parseBody(options.validate, req.body)
+        : undefined;
+
+      if (options.rateLimit && (options.rateLimitMethods || ['POST']).includes(req.method as HttpMethod)) {
+        const cost = options.rateLimitCost && body !== undefined ? options.rateLimitCost(body) : 1;
+        const retryAfter = await checkRateLimit(req, options.rateLimit, cost);
+        if (retryAfter !== null) {
+          logger.warn('Rate limited', { limit: options.rateLimit, ip: getClientIp(req), retryAfter });
+          res.setHeader('Retry-After', String(retryAfter));
+          return res.status(429).json({
+            error: {
+              code: 'rate_limited',
+              message: `You're going a little fast. Please try again in ${
+                retryAfter < 120 ? `${retryAfter} seconds` : `${Math.ceil(retryAfter / 60)} minutes`
+              }.`,
+              retryAfter
+            }
+          });
+        }
+      }
+
+      return await handler(req, res, body as B);
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        return sendValidationError(res, error);
+      }
+      logger.error('Unhandled API error', { error });
+      return res.status(500).json({ error: 'Request failed' });
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Order Records
+ *
+ * Persisted from Stripe webhooks so a paid order can be fulfilled even if the
+ * customer never comes back to ?session_id= in the browser.
+ */
+
+import type Stripe from 'stripe';
+import { createRecordStore } from './recordStore.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OrderStatus = 'paid' | 'expired' | 'refunded';
+
+// Stripe doesn't deliver webhook events in order - a status only ever moves
+// up this ranking, so a late 'completed' can't turn a refund back into 'paid'
+const STATUS_RANK: Record<OrderStatus, number> = { expired: 0, paid: 1, refunded: 2 };
+
+export interface Order {
+  stripeSessionId: string;
+  kind: 'pack' | 'credits';     // A single pack, or a credit bundle (checkout metadata)
+  artSessionId: string;
+  vehicleInfo: string;
+  email: string | null;
+  amountTotal: number | null;   // Smallest currency unit (cents)
+  currency: string | null;
+  status: OrderStatus;
+  paymentIntentId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrderStore {
+  get(stripeSessionId: string): Promise<Order | null>;
+  save(order: Order): Promise<void>;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class RecordOrderStore implements OrderStore {
+  private records = createRecordStore<Order>('orders');
+
+  get(stripeSessionId: string) {
+    return this.records.get(stripeSessionId);
+  }
+
+  save(order: Order) {
+    return this.records.put(order.stripeSessionId, order);
+  }
+}
+
+let store: OrderStore | null = null;
+
+export function getOrderStore(): OrderStore {
+  if (!store) store = new RecordOrderStore();
+  return store;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Create or update the order record for a checkout session. The stored
+ * status is kept when it ranks higher - 'refunded' is terminal.
+ */
+export async function recordOrder(session: Stripe.Checkout.Session, status: OrderStatus): Promise<Order> {
+  const orders = getOrderStore();
+  const existing = await orders.get(session.id);
+  const now = new Date().toISOString();
+
+  const order: Order = {
+    stripeSessionId: session.id,
+    kind: session.metadata?.kind === 'credits' ? 'credits' : 'pack',
+    artSessionId: session.metadata?.artSessionId || '',
+    vehicleInfo: session.metadata?.vehicleInfo || '',
+    email: session.customer_details?.email || existing?.email || null,
+    amountTotal: session.amount_total,
+    currency: session.currency,
+    status: existing && STATUS_RANK[existing.status] > STATUS_RANK[status] ? existing.status : status,
+    paymentIntentId: typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id || null,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  await orders.save(order);
+  return order;
+}
@@ -0,0 +1,97 @@
+/**
+ * Outpaint Render Mode
+ *
+ * The alternative to re-generating every format from the phone preview:
+ * the approved phone art is scaled to the format's height and placed in the
+ * middle of the format-sized canvas, the model only paints the empty margins,
+ * and afterwards the phone art is pasted back over the middle. The vehicle
+ * is the same pixels in every format of the pack - only the scenery around
+ * it is new.
+ *
+ * The phone format is the tallest, so its art always fits by height.
+ */
+
+import sharp from 'sharp';
+import type { ArtFormat } from '../../shared/schema.js';
+import { encodeArt, getFormatSize, type SizedImage } from './imageOutput.js';
+import type { ImageData } from './providers/index.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Empty margins the model is asked to paint
+const MARGIN_COLOR = { r: 128, g: 128, b: 128, alpha: 1 };
+
+// Outer band of the pasted-back art that fades into the painted margins, so
+// the seam is blended - the vehicle sits well inside it
+const FEATHER_FRACTION = 0.04;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OutpaintCanvas {
+  image: ImageData;             // Format-sized canvas with the art in the middle
+  art: Buffer;                  // The placed art, at its placed size (PNG)
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// CANVAS
+// ============================================================================
+
+/**
+ * Place the phone art in the middle of a format-sized canvas with grey margins
+ */
+export async function createOutpaintCanvas(phoneArt: ImageData, format: ArtFormat): Promise<OutpaintCanvas> {
+  const target = getFormatSize(format);
+  const art = await sharp(Buffer.from(phoneArt.data, 'base64'))
+    .resize({ height: target.height })
+    .png()
+    .toBuffer();
+  const { width = 0, height = 0 } = await sharp(art).metadata();
+  const left = Math.round((target.width - width) / 2);
+  const top = Math.round((target.height - height) / 2);
+
+  const canvas = await sharp({ create: { ...target, channels: 4, background: MARGIN_COLOR } })
+    .composite([{ input: art, left, top }])
+    .png()
+    .toBuffer();
+
+  return { image: { data: canvas.toString('base64'), mimeType: 'image/png' }, art, left, top, width, height };
+}
+
+// Alpha mask for the pasted-back art: opaque, fading out over the left and right edges
+const featherMask = (width: number, height: number): Buffer => {
+  const feather = Math.max(1, Math.round(width * FEATHER_FRACTION));
+  const row = Buffer.alloc(width);
+  for (let x = 0; x < width; x++) {
+    const edge = Math.min(x, width - 1 - x);
+    row[x] = edge >= feather ? 255 : Math.round((255 * edge) / feather);
+  }
+  const mask = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) row.copy(mask, y * width);
+  return mask;
+};
+
+/**
+ * Paste the original art back over the outpainted image (already fitted to
+ * the format's exact size), so the model's copy of the middle is discarded
+ */
+export async function restoreOutpaintArt(outpainted: SizedImage, canvas: OutpaintCanvas): Promise<SizedImage> {
+  const art = await sharp(canvas.art)
+    .removeAlpha()
+    .joinChannel(featherMask(canvas.width, canvas.height), { raw: { width: canvas.width, height: canvas.height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  const output = await encodeArt(
+    sharp(Buffer.from(outpainted.data, 'base64')).composite([{ input: art, left: canvas.left, top: canvas.top }])
+  );
+
+  return { ...outpainted, ...output };
+}
@@ -0,0 +1,274 @@
+/**
+ * Promotion & Campaign Codes
+ *
+ * Two kinds of codes are accepted on the paywall:
+ * - Campaign codes (ours) for car shows and forums, configured in the
+ *   PROMO_CAMPAIGNS env var as JSON, e.g.
+ *     [{ "code": "CARSHOW", "type": "percent_off", "percentOff": 50,
+ *        "maxRedemptions": 200, "expiresAt": "2026-12-31T23:59:59Z" },
+ *      { "code": "FORUMFREE", "type": "free_pack", "maxRedemptions": 25 }]
+ * - Stripe-native promotion codes, looked up in Stripe and applied at checkout.
+ *
+ * Everything is validated server-side; the client only ever sends the code.
+ */
+
+import type Stripe from 'stripe';
+import { getStripe, isSessionPaid } from './stripe.js';
+import { createRecordStore } from './recordStore.js';
+import { logger } from './logger.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CampaignType = 'free_pack' | 'percent_off';
+
+export interface Campaign {
+  code: string;
+  type: CampaignType;
+  percentOff?: number;        // percent_off only, 1-100
+  maxRedemptions?: number;
+  expiresAt?: string;         // ISO date
+}
+
+export interface CampaignRedemptions {
+  code: string;
+  references: string[];               // Stripe session IDs or art session IDs, one per redemption
+  jobs: Record<string, string>;       // Free packs: art session ID → generation job ID
+  attempts?: Record<string, number>;  // Free packs: art session ID → generation attempts
+}
+
+export type ResolvedPromo =
+  | { kind: 'campaign'; campaign: Campaign }
+  | { kind: 'stripe'; promotionCode: Stripe.PromotionCode };
+
+export class PromoError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'PromoError';
+  }
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export interface CampaignRedemptionStore {
+  get(code: string): Promise<CampaignRedemptions | null>;
+  /** Save only if the stored redemptions are still `expected` - false when they changed meanwhile */
+  replace(expected: CampaignRedemptions | null, redemptions: CampaignRedemptions): Promise<boolean>;
+}
+
+export class RecordCampaignRedemptionStore implements CampaignRedemptionStore {
+  private records = createRecordStore<CampaignRedemptions>('promo-redemptions');
+
+  get(code: string) {
+    return this.records.get(code);
+  }
+
+  replace(expected: CampaignRedemptions | null, redemptions: CampaignRedemptions) {
+    return this.records.replace(redemptions.code, expected, redemptions);
+  }
+}
+
+let store: CampaignRedemptionStore | null = null;
+
+export function getCampaignRedemptionStore(): CampaignRedemptionStore {
+  if (!store) store = new RecordCampaignRedemptionStore();
+  return store;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+const loadCampaigns = (): Campaign[] => {
+  try {
+    const campaigns = JSON.parse(process.env.PROMO_CAMPAIGNS || '[]');
+    return Array.isArray(campaigns) ? campaigns : [];
+  } catch (error) {
+    logger.error('PROMO_CAMPAIGNS is not valid JSON', { error });
+    return [];
+  }
+};
+
+export const findCampaign = (code: string): Campaign | undefined =>
+  loadCampaigns().find(campaign => normalizeCode(campaign.code) === normalizeCode(code));
+
+const emptyRedemptions = (code: string): CampaignRedemptions => ({ code: normalizeCode(code), references: [], jobs: {} });
+
+// Checkouts and free packs can redeem the same campaign at once
+const MAX_REDEMPTION_WRITES = 5;
+
+interface RedemptionChange<R> {
+  redemptions?: CampaignRedemptions;    // The changed redemptions to save - absent when nothing changes
+  result: R;
+}
+
+/**
+ * Read-change-write a campaign's redemptions without losing a concurrent
+ * redemption: when they changed between read and write, `change` runs again
+ * on the fresh copy - so the redemption limit is checked against every
+ * redemption saved before it. Errors thrown by `change` are passed through.
+ */
+async function changeRedemptions<R>(
+  code: string,
+  change: (redemptions: CampaignRedemptions) => RedemptionChange<R>
+): Promise<R> {
+  const store = getCampaignRedemptionStore();
+  for (let write = 0; write < MAX_REDEMPTION_WRITES; write++) {
+    const current = await store.get(normalizeCode(code));
+    // `change` mutates a copy - `current` is what the write is checked against
+    const { redemptions, result } = change(current ? structuredClone(current) : emptyRedemptions(code));
+    if (!redemptions) return result;
+    if (await store.replace(current, redemptions)) return result;
+  }
+
+  logger.warn('Campaign redemptions kept changing - write given up', { code: normalizeCode(code) });
+  throw new PromoError(409, 'This code is busy - please try again');
+}
+
+/**
+ * Throws PromoError if the campaign has expired or is used up
+ */
+const assertRedeemable = (campaign: Campaign, { references }: CampaignRedemptions): void => {
+  if (campaign.expiresAt && new Date(campaign.expiresAt).getTime() < Date.now()) {
+    throw new PromoError(410, 'This code has expired');
+  }
+  if (campaign.maxRedemptions !== undefined && references.length >= campaign.maxRedemptions) {
+    throw new PromoError(410, 'This code has been fully redeemed');
+  }
+};
+
+/**
+ * Resolve a code to one of our campaigns or an active Stripe promotion code.
+ * Throws PromoError when the code is unknown or no longer valid.
+ */
+export async function resolvePromoCode(code: unknown): Promise<ResolvedPromo> {
+  if (!code || typeof code !== 'string' || !code.trim()) {
+    throw new PromoError(400, 'Enter a code');
+  }
+
+  const campaign = findCampaign(code);
+  if (campaign) {
+    const redemptions = await getCampaignRedemptionStore().get(normalizeCode(campaign.code));
+    assertRedeemable(campaign, redemptions || emptyRedemptions(code));
+    return { kind: 'campaign', campaign };
+  }
+
+  const stripe = getStripe();
+  if (stripe) {
+    const { data } = await stripe.promotionCodes.list({ code: code.trim(), active: true, limit: 1 });
+    if (data[0]) {
+      return { kind: 'stripe', promotionCode: data[0] };
+    }
+  }
+
+  throw new PromoError(404, 'Code not recognised');
+}
+
+/**
+ * Short customer-facing description, e.g. "50% off" or "Free 4K pack"
+ */
+export function describePromo(promo: ResolvedPromo): string {
+  if (promo.kind === 'campaign') {
+    return promo.campaign.type === 'free_pack'
+      ? 'Free 4K pack'
+      : `${promo.campaign.percentOff}% off`;
+  }
+
+  const coupon = promo.promotionCode.promotion.coupon;
+  if (coupon && typeof coupon !== 'string') {
+    if (coupon.percent_off) return `${coupon.percent_off}% off`;
+    if (coupon.amount_off && coupon.currency) {
+      return `${(coupon.amount_off / 100).toFixed(2)} ${coupon.currency.toUpperCase()} off`;
+    }
+  }
+  return 'Discount applied';
+}
+
+// ============================================================================
+// CHECKOUT DISCOUNTS
+// ============================================================================
+
+/**
+ * Stripe coupon backing a percent-off campaign - created on first use
+ */
+export async function getCampaignCoupon(stripe: Stripe, campaign: Campaign): Promise<string> {
+  const couponId = `campaign_${normalizeCode(campaign.code)}_${campaign.percentOff}`;
+  try {
+    await stripe.coupons.retrieve(couponId);
+  } catch {
+    await stripe.coupons.create({
+      id: couponId,
+      percent_off: campaign.percentOff,
+      duration: 'once',
+      name: `Campaign ${normalizeCode(campaign.code)}`,
+    });
+  }
+  return couponId;
+}
+
+// ============================================================================
+// REDEMPTION
+// ============================================================================
+
+/**
+ * Count a discounted checkout against its campaign once payment completes.
+ * Idempotent per Stripe session - safe from both the webhook and verify-payment.
+ */
+export async function recordCheckoutRedemption(session: Stripe.Checkout.Session): Promise<void> {
+  const code = session.metadata?.promoCode;
+  if (!code || !isSessionPaid(session) || !findCampaign(code)) return;
+
+  await changeRedemptions(code, (redemptions) => {
+    if (redemptions.references.includes(session.id)) return { result: undefined };
+    redemptions.references.push(session.id);
+    return { redemptions, result: undefined };
+  });
+}
+
+/**
+ * Redeem a free-pack campaign for an art session. Idempotent per art session:
+ * returns the job already started for it, if any, and how many were started.
+ */
+export async function redeemFreePack(code: unknown, artSessionId: string): Promise<{
+  campaign: Campaign;
+  existingJobId: string | null;
+  attempts: number;
+}> {
+  const campaign = typeof code === 'string' ? findCampaign(code) : undefined;
+  if (!campaign || campaign.type !== 'free_pack') {
+    throw new PromoError(403, 'This code does not unlock a free pack');
+  }
+
+  return changeRedemptions(campaign.code, (redemptions) => {
+    if (redemptions.references.includes(artSessionId)) {
+      return {
+        result: {
+          campaign,
+          existingJobId: redemptions.jobs[artSessionId] || null,
+          // Redemptions from before attempts were counted had one job at most
+          attempts: redemptions.attempts?.[artSessionId] ?? (redemptions.jobs[artSessionId] ? 1 : 0),
+        },
+      };
+    }
+
+    assertRedeemable(campaign, redemptions);
+    redemptions.references.push(artSessionId);
+    return { redemptions, result: { campaign, existingJobId: null, attempts: 0 } };
+  });
+}
+
+/**
+ * Remember which job a free-pack redemption started, counting the attempt
+ */
+export async function attachFreePackJob(campaign: Campaign, artSessionId: string, jobId: string, attempts: number): Promise<void> {
+  await changeRedemptions(campaign.code, (redemptions) => {
+    redemptions.jobs[artSessionId] = jobId;
+    redemptions.attempts = { ...redemptions.attempts, [artSessionId]: attempts };
+    return { redemptions, result: undefined };
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Fixture Providers
+ *
+ * Deterministic stand-ins for offline development and tests: a canned vehicle
+ * analysis, and sample artwork from public/showcase instead of generated
+ * images. The same request always returns the same image. No API key needed.
+ */
+
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import { BackgroundTheme, FidelityAudit, StanceStyle, VehicleAnalysis, VehicleCategory } from '../../../shared/schema.js';
+import type { AnalysisProvider, ImageData, ImageProvider, ImageRequest } from './types.js';
+
+const SHOWCASE_DIR = process.env.FIXTURE_IMAGE_DIR || path.join(process.cwd(), 'public', 'showcase');
+const SAMPLE_IMAGES = ['after1.png', 'after2.png', 'after3.png'];
+
+const FIXTURE_ANALYSIS: VehicleAnalysis = {
+  make: 'Jeep',
+  model: 'Wrangler Rubicon',
+  year: '2021',
+  color: 'Firecracker Red',
+  category: VehicleCategory.OFFROAD,
+  isOffroad: true,
+  orientation: 'Three-quarter front view',
+  facingDirection: 'left',
+  mods: ['Steel front bumper', 'Winch'],
+  installedAccessories: ['Roof rack', 'LED light bar'],
+  geometryAudit: {
+    bodyShape: 'Boxy two-door SUV with flat hood and exposed hinges',
+    windowLayout: 'Upright windshield, single side window',
+    frontDetail: 'Seven-slot grille with round headlights',
+  },
+  wheelAudit: {
+    hasWhiteLettering: false,
+    hasCenterCaps: true,
+    centerCapColor: 'Black',
+    wheelColor: 'Black',
+    wheelFinish: 'Matte',
+    wheelType: 'Beadlock-style 5-spoke',
+  },
+  visualFeatures: {
+    roofGear: 'Low-profile roof rack',
+    wheelStyle: 'Black 5-spoke with all-terrain tires',
+    distinctiveMarkings: 'Rubicon hood decal',
+  },
+  popularMods: [
+    { id: 'lift', name: '2.5" Lift Kit', description: 'More clearance for bigger tires' },
+    { id: 'snorkel', name: 'Snorkel', description: 'Raised air intake for water crossings' },
+  ],
+  popularWheels: [
+    { name: 'Method 701', style: 'Matte black trail wheel' },
+  ],
+  suggestedStance: StanceStyle.LIFTED,
+  suggestedBackground: BackgroundTheme.MOUNTAINS,
+};
+
+export class FixtureAnalysisProvider implements AnalysisProvider {
+  readonly name = 'fixture';
+
+  async analyzeVehicle(): Promise<VehicleAnalysis> {
+    return structuredClone(FIXTURE_ANALYSIS);
+  }
+
+  // The samples aren't the customer's vehicle - nothing to compare, so every audit passes
+  async auditFidelity(): Promise<FidelityAudit> {
+    return { issues: [] };
+  }
+}
+
+export class FixtureImageProvider implements ImageProvider {
+  readonly name = 'fixture';
+
+  async generateImage({ prompt, images, size, variant = 0 }: ImageRequest): Promise<ImageData> {
+    // Pick a sample from the request so repeated calls are stable - and
+    // candidates of the same request get different ones
+    const digest = createHash('sha256')
+      .update(prompt)
+      .update(images.map(image => image.data.length).join(','))
+      .digest();
+    const file = SAMPLE_IMAGES[(digest[0] + variant) % SAMPLE_IMAGES.length];
+
+    const data = await fs.readFile(path.join(SHOWCASE_DIR, file));
+    if (!size) return { data: data.toString('base64'), mimeType: 'image/png' };
+
+    // Crop to the requested ratio, like a model honouring the aspect ratio hint
+    const cropped = await sharp(data).resize({ width: size.width, height: size.height, fit: 'cover' }).png().toBuffer();
+    return { data: cropped.toString('base64'), mimeType: 'image/png' };
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Gemini Providers
+ *
+ * Analysis and image generation on Gemini, via the retrying client wrapper.
+ */
+
+import { ANALYZE_VEHICLE_PROMPT, ANALYZE_VEHICLE_SCHEMA, AUDIT_FIDELITY_SCHEMA } from '../../templates.js';
+import type { FidelityAudit, VehicleAnalysis } from '../../../shared/schema.js';
+import { checkModels, generateImage, generateJson } from '../gemini.js';
+import type { AnalysisProvider, AuditRequest, ImageData, ImageProvider, ImageRequest, ImageSize } from './types.js';
+
+// Output ratios the image models support - anything else is fitted afterwards
+const SUPPORTED_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9', '21:9'];
+
+// Closest supported ratio, compared on a log scale so 2:1 and 1:2 are equally far from 1:1
+const closestAspectRatio = ({ width, height }: ImageSize): string => {
+  const distance = (ratio: string) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return Math.abs(Math.log((w / h) / (width / height)));
+  };
+  return SUPPORTED_ASPECT_RATIOS.reduce((best, ratio) => distance(ratio) < distance(best) ? ratio : best);
+};
+
+export class GeminiAnalysisProvider implements AnalysisProvider {
+  readonly name = 'gemini';
+
+  constructor(private apiKey: string) {}
+
+  analyzeVehicle(image: string, deadline?: number): Promise<VehicleAnalysis> {
+    return generateJson<VehicleAnalysis>(this.apiKey, 'analysis', {
+      contents: {
+        parts: [
+          { inlineData: { mimeType: "image/jpeg", data: image } },
+          { text: ANALYZE_VEHICLE_PROMPT }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: ANALYZE_VEHICLE_SCHEMA,
+        tools: [{ googleSearch: {} }]
+      }
+    }, deadline);
+  }
+
+  auditFidelity({ prompt, images, deadline }: AuditRequest): Promise<FidelityAudit> {
+    return generateJson<FidelityAudit>(this.apiKey, 'audit', {
+      contents: {
+        parts: [
+          ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+          { text: prompt }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: AUDIT_FIDELITY_SCHEMA
+      }
+    }, deadline);
+  }
+
+  checkConnection(): Promise<void> {
+    return checkModels(this.apiKey, ['analysis', 'audit']);
+  }
+}
+
+export class GeminiImageProvider implements ImageProvider {
+  readonly name = 'gemini';
+
+  constructor(private apiKey: string) {}
+
+  generateImage({ kind, prompt, images, size, deadline }: ImageRequest): Promise<ImageData> {
+    return generateImage(this.apiKey, kind, {
+      parts: [
+        ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+        { text: prompt }
+      ]
+    }, size ? { aspectRatio: closestAspectRatio(size) } : undefined, deadline);
+  }
+
+  checkConnection(): Promise<void> {
+    return checkModels(this.apiKey, ['preview', 'render', 'outpaint', 'refine']);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * AI Provider Selection
+ *
+ * AI_PROVIDER picks the backend for analysis and image generation:
+ * - gemini (default) - needs GEMINI_API_KEY
+ * - fixture          - canned analysis + showcase images, works offline
+ *                      (the default in sandbox mode)
+ */
+
+import { GeminiAnalysisProvider, GeminiImageProvider } from './gemini.js';
+import { FixtureAnalysisProvider, FixtureImageProvider } from './fixture.js';
+import type { AiProviders } from './types.js';
+import { isSandbox } from '../sandbox.js';
+import { logger } from '../logger.js';
+
+export * from './types.js';
+
+let providers: AiProviders | null | undefined;
+
+export const getAiProviderName = (): string =>
+  process.env.AI_PROVIDER || (isSandbox() ? 'fixture' : 'gemini');
+
+/**
+ * Returns null when the selected provider is not configured
+ */
+export function getAiProviders(): AiProviders | null {
+  if (providers !== undefined) return providers;
+
+  const name = getAiProviderName();
+  switch (name) {
+    case 'fixture':
+      providers = { analysis: new FixtureAnalysisProvider(), image: new FixtureImageProvider() };
+      break;
+
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        logger.error('GEMINI_API_KEY is not configured');
+      }
+      providers = apiKey
+        ? { analysis: new GeminiAnalysisProvider(apiKey), image: new GeminiImageProvider(apiKey) }
+        : null;
+      break;
+    }
+
+    default:
+      logger.error('Unknown AI_PROVIDER', { provider: name });
+      providers = null;
+  }
+  return providers;
+}
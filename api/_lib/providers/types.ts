@@ -0,0 +1,67 @@
+/**
+ * AI Provider Interfaces
+ *
+ * Vehicle analysis and image generation go through these interfaces so the
+ * backend can be swapped (Gemini in production, fixtures offline) without
+ * touching the handlers. Prompts are still built server-side from
+ * templates.ts - providers only run them.
+ */
+
+import type { FidelityAudit, VehicleAnalysis } from '../../../shared/schema.js';
+
+export interface ImageData {
+  data: string;               // Base64
+  mimeType: string;
+}
+
+export type ImageRequestKind = 'preview' | 'render' | 'outpaint' | 'refine';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface ImageRequest {
+  kind: ImageRequestKind;     // First (phone) preview, a follow-up format render, a background fill around the preview, or an edit to it
+  prompt: string;
+  images: ImageData[];        // Reference images, in prompt order
+  size?: ImageSize;           // Target size - providers aim for its ratio, imageOutput.ts makes it exact
+  deadline?: number;          // Epoch ms - no retries that can't finish by then
+  variant?: number;           // Index among identical requests (preview candidates) - models vary on their own, fixtures use it
+}
+
+export interface AuditRequest {
+  prompt: string;
+  images: ImageData[];        // The artwork, then the source photo
+  deadline?: number;          // Epoch ms - no retries that can't finish by then
+}
+
+export interface AnalysisProvider {
+  readonly name: string;
+  analyzeVehicle(image: string, deadline?: number): Promise<VehicleAnalysis>;
+  // Compare a generated artwork with the source photo (see fidelityAudit.ts)
+  auditFidelity(request: AuditRequest): Promise<FidelityAudit>;
+  // Cheap reachability check for /api/health - throws when the backend can't be used
+  checkConnection?(): Promise<void>;
+}
+
+export interface ImageProvider {
+  readonly name: string;
+  generateImage(request: ImageRequest): Promise<ImageData>;
+  checkConnection?(): Promise<void>;
+}
+
+export interface AiProviders {
+  analysis: AnalysisProvider;
+  image: ImageProvider;
+}
+
+/**
+ * Provider failure with the HTTP status to return and a customer-safe message
+ */
+export class ProviderError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
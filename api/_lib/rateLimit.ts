@@ -0,0 +1,172 @@
+/**
+ * Rate Limiting
+ *
+ * Sliding-window limits for the unauthenticated AI routes and the staff
+ * password check, counted both per client IP and per anonymous device ID
+ * (X-Device-Id header, generated and kept by the browser). Whichever runs out
+ * first blocks the request - withApi answers with a 429 and a Retry-After
+ * header.
+ *
+ * Hits are kept in Redis when it is configured (see recordStore.ts), so the
+ * limits hold across function instances. The in-memory fallback only sees
+ * one instance. Either way the count and the record are one atomic step, so
+ * requests fired in parallel can't all slip under the limit.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Redis } from '@upstash/redis';
+import type { VercelRequest } from '@vercel/node';
+import { getRedis } from './recordStore.js';
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+export type RateLimitName = 'analysis' | 'preview' | 'promo' | 'staff';
+
+interface RateLimit {
+  windowMs: number;
+  perDevice: number;
+  perIp: number;        // Higher - households and offices share an IP
+}
+
+const TEN_MINUTES = 10 * 60 * 1000;
+const ONE_HOUR = 60 * 60 * 1000;
+
+export const RATE_LIMITS: Record<RateLimitName, RateLimit> = {
+  analysis: { windowMs: TEN_MINUTES, perDevice: 10, perIp: 30 },
+  // Counted per image - a request for 3 preview candidates uses 3, and every
+  // fidelity re-generation one more (see generate-art.ts)
+  preview: { windowMs: TEN_MINUTES, perDevice: 12, perIp: 36 },
+  // Promo code checks - plenty for typos, far too few to guess codes
+  promo: { windowMs: TEN_MINUTES, perDevice: 10, perIp: 30 },
+  // Staff password attempts - the caller picks its own device ID, so the IP limit is what counts
+  staff: { windowMs: ONE_HOUR, perDevice: 5, perIp: 5 },
+};
+
+// Redis keys outlive the longest window by nothing more than this
+const MAX_WINDOW_MS = Math.max(...Object.values(RATE_LIMITS).map(limit => limit.windowMs));
+
+export const DEVICE_ID_HEADER = 'x-device-id';
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export interface RateLimitStore {
+  /**
+   * Record `cost` hits at `at` on every key, unless that would take any key
+   * past its max since `since` - then nothing is recorded. Atomic. Returns
+   * null when recorded, otherwise each key's hit timestamps, oldest first.
+   */
+  take(keys: [key: string, max: number][], since: number, at: number, cost: number): Promise<number[][] | null>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, number[]>();
+
+  // No await inside - one instance runs it start to finish
+  async take(keys: [string, number][], since: number, at: number, cost: number) {
+    const hits = keys.map(([key]) => (this.windows.get(key) || []).filter(hit => hit > since));
+    if (keys.some(([, max], index) => hits[index].length + cost > max)) return hits;
+
+    keys.forEach(([key], index) => {
+      this.windows.set(key, [...hits[index], ...Array<number>(cost).fill(at)]);
+    });
+    return null;
+  }
+}
+
+// KEYS: one sorted set per limit, scored by hit time
+// ARGV: since, at, cost, ttl ms, one max per key, then one unique member per hit
+const TAKE_SCRIPT = `
+local since, at, cost, ttl = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3]), tonumber(ARGV[4])
+local full = false
+for i, key in ipairs(KEYS) do
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', since)
+  if redis.call('ZCARD', key) + cost > tonumber(ARGV[4 + i]) then full = true end
+end
+if full then
+  local hits = {}
+  for i, key in ipairs(KEYS) do hits[i] = redis.call('ZRANGE', key, 0, -1) end
+  return hits
+end
+for _, key in ipairs(KEYS) do
+  for hit = 1, cost do redis.call('ZADD', key, at, ARGV[4 + #KEYS + hit]) end
+  redis.call('PEXPIRE', key, ttl)
+end
+return nil`;
+
+/**
+ * One sorted set per key, counted and added to in one script
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private client: Redis) {}
+
+  async take(keys: [string, number][], since: number, at: number, cost: number) {
+    // Members must be unique - several hits can share a timestamp
+    const members = Array.from({ length: cost }, () => `${at}:${randomUUID()}`);
+    const hits = await this.client.eval<(string | number)[], string[][] | null>(
+      TAKE_SCRIPT,
+      keys.map(([key]) => `rate:${key}`),
+      [since, at, cost, MAX_WINDOW_MS, ...keys.map(([, max]) => max), ...members]
+    );
+    return hits && hits.map(members => members.map(member => Number(String(member).split(':')[0])));
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const redis = getRedis();
+    store = redis ? new RedisRateLimitStore(redis) : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+export const getClientIp = (req: VercelRequest): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return first || String(req.headers['x-real-ip'] || req.socket?.remoteAddress || 'unknown');
+};
+
+// Random ID from the browser - anything else is ignored rather than trusted
+const getDeviceId = (req: VercelRequest): string | null => {
+  const header = req.headers[DEVICE_ID_HEADER];
+  return typeof header === 'string' && /^[A-Za-z0-9_-]{8,64}$/.test(header) ? header : null;
+};
+
+/**
+ * Count this request against the limit - as `cost` hits when it makes several
+ * AI calls. Returns how many seconds to wait when the limit would be exceeded
+ * (nothing is recorded then), otherwise null.
+ */
+export async function checkRateLimit(req: VercelRequest, name: RateLimitName, cost = 1): Promise<number | null> {
+  const limit = RATE_LIMITS[name];
+  const now = Date.now();
+  const since = now - limit.windowMs;
+  const deviceId = getDeviceId(req);
+
+  const keys: [string, number][] = [[`${name}:ip:${getClientIp(req)}`, limit.perIp]];
+  if (deviceId) keys.push([`${name}:device:${deviceId}`, limit.perDevice]);
+
+  const hitsPerKey = await getRateLimitStore().take(keys, since, now, cost);
+  if (!hitsPerKey) return null;
+
+  let retryAfterMs = 0;
+  keys.forEach(([, max], index) => {
+    const hits = hitsPerKey[index];
+    if (hits.length + cost > max) {
+      // The window frees up when enough of the oldest hits slide out
+      const freedBy = hits[Math.min(hits.length, hits.length + cost - max) - 1];
+      retryAfterMs = Math.max(retryAfterMs, (freedBy ?? now) + limit.windowMs - now);
+    }
+  });
+  // At least a second - a cost above the max never fits
+  return Math.max(1, Math.ceil(retryAfterMs / 1000));
+}
@@ -0,0 +1,128 @@
+/**
+ * Record Storage
+ *
+ * Every server-side store (art sessions, jobs, orders, entitlements, credits,
+ * deliveries, redemptions) keeps its records through here. Each Vercel
+ * function instance has its own /tmp, so a record written while handling one
+ * request is usually invisible to the next - production needs shared storage:
+ *
+ * - Redis (Upstash, e.g. through the Vercel Marketplace) when KV_REST_API_URL
+ *   and KV_REST_API_TOKEN (or UPSTASH_REDIS_REST_URL / _TOKEN) are set.
+ *   Art sessions and finished packs hold base64 images, so the plan's
+ *   request size limit must allow records of several MB.
+ * - Otherwise JSON files under DATA_DIR (see fileStore.ts) - only shared when
+ *   every request runs on one machine (local dev, the sandbox).
+ *
+ * On Vercel without Redis the storage is reported as not shared: an error is
+ * logged and /api/health is not ready, so the app shows its maintenance
+ * banner instead of taking payments it can't fulfil.
+ */
+
+import { Redis } from '@upstash/redis';
+import { JsonFileStore } from './fileStore.js';
+import { logger } from './logger.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RecordStore<T> {
+  get(id: string): Promise<T | null>;
+  put(id: string, value: T): Promise<void>;
+  /**
+   * Store the value only if nothing is stored under the ID yet. Atomic across
+   * instances - returns true when this call created the record.
+   */
+  create(id: string, value: T): Promise<boolean>;
+  /**
+   * Store the value only if the stored one is still `expected` (null: nothing
+   * stored yet). Atomic across instances - returns false when another write
+   * got there first, so the caller can re-read and try again.
+   */
+  replace(id: string, expected: T | null, value: T): Promise<boolean>;
+}
+
+export interface StorageStatus {
+  backend: 'redis' | 'file';
+  shared: boolean;            // Every function instance sees the same records
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+let redis: Redis | null | undefined;
+
+/**
+ * Returns null when no Redis REST credentials are configured
+ */
+export function getRedis(): Redis | null {
+  if (redis !== undefined) return redis;
+
+  const url = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+  redis = url && token ? new Redis({ url, token }) : null;
+  return redis;
+}
+
+// Compare-and-set on the stored JSON - values are written with JSON.stringify
+// and read back with JSON.parse, so a record read earlier serializes the same
+const REPLACE_SCRIPT = `
+if (redis.call('GET', KEYS[1]) or '') ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2])
+return 1`;
+
+export class RedisRecordStore<T> implements RecordStore<T> {
+  constructor(private client: Redis, private collection: string) {}
+
+  private key(id: string): string {
+    return `${this.collection}:${id}`;
+  }
+
+  get(id: string) {
+    return this.client.get<T>(this.key(id));
+  }
+
+  async put(id: string, value: T) {
+    await this.client.set(this.key(id), value);
+  }
+
+  async create(id: string, value: T) {
+    return (await this.client.set(this.key(id), value, { nx: true })) === 'OK';
+  }
+
+  async replace(id: string, expected: T | null, value: T) {
+    const replaced = await this.client.eval<string[], number>(
+      REPLACE_SCRIPT,
+      [this.key(id)],
+      [expected === null ? '' : JSON.stringify(expected), JSON.stringify(value)]
+    );
+    return replaced === 1;
+  }
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+export function getStorageStatus(): StorageStatus {
+  if (getRedis()) return { backend: 'redis', shared: true };
+  // Outside Vercel every request is served by the same machine
+  return { backend: 'file', shared: !process.env.VERCEL };
+}
+
+let warned = false;
+
+/**
+ * Store for one collection of records - Redis when configured, files otherwise
+ */
+export function createRecordStore<T>(collection: string): RecordStore<T> {
+  const client = getRedis();
+  if (client) return new RedisRecordStore<T>(client, collection);
+
+  if (!getStorageStatus().shared && !warned) {
+    warned = true;
+    logger.error('Record storage is not shared between function instances - configure Redis (KV_REST_API_URL, KV_REST_API_TOKEN)');
+  }
+  return new JsonFileStore<T>(collection);
+}
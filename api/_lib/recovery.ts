@@ -0,0 +1,32 @@
+/**
+ * Pack Recovery Links
+ *
+ * Signed, expiring tokens that identify a paid checkout session, so a customer
+ * can get their pack back without re-entering email and order reference.
+ */
+
+import { signToken, verifyToken } from './signing.js';
+
+export const RECOVERY_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+interface RecoveryPayload {
+  sid: string;  // Stripe Checkout session ID
+}
+
+/**
+ * Returns null when RECOVERY_LINK_SECRET is not configured
+ */
+export function createRecoveryToken(stripeSessionId: string): string | null {
+  const secret = process.env.RECOVERY_LINK_SECRET;
+  if (!secret) return null;
+  return signToken<RecoveryPayload>({ sid: stripeSessionId }, secret, RECOVERY_TOKEN_TTL_MS);
+}
+
+/**
+ * Returns the Stripe Checkout session ID, or null if the token is invalid
+ */
+export function verifyRecoveryToken(token: unknown): string | null {
+  const secret = process.env.RECOVERY_LINK_SECRET;
+  if (!secret) return null;
+  return verifyToken<RecoveryPayload>(token, secret)?.sid || null;
+}
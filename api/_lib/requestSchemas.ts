@@ -0,0 +1,178 @@
+/**
+ * Request Schemas
+ *
+ * Body schemas for every JSON API route. Option values are checked against
+ * the shared enums in shared/schema.ts - an absent option gets the same default the
+ * prompts have always used, an unknown one is rejected.
+ */
+
+import {
+  ArtStyle,
+  BackgroundTheme,
+  FidelityMode,
+  PositionMode,
+  PRODUCT_TIER_IDS,
+  StanceStyle,
+  VehicleCategory,
+  type VehicleAnalysis
+} from '../../shared/schema.js';
+import {
+  array,
+  base64Image,
+  boolean,
+  completeItems,
+  email,
+  integer,
+  object,
+  oneOf,
+  optional,
+  string,
+  type Infer,
+  type Validator
+} from './validation.js';
+import { DEFAULT_RENDER_MODE, RENDER_MODES } from './jobs.js';
+import { MAX_REFINEMENT_LENGTH } from '../templates.js';
+
+// Decoded sizes. Vercel caps the whole body at 4.5MB (see middleware.ts) and
+// create-art-session and refine-art carry the photo and the preview together -
+// base64 adds a third, so both at their limit are ~4.2MB on the wire.
+// Photos are compressed client-side to fit. Previews are what fitToFormat
+// makes: a 1080×2340 JPEG at quality 92 is well under 1MB for artwork and
+// stays under 2MB even for photo-like detail.
+export const MAX_PHOTO_BYTES = 1024 * 1024;
+export const MAX_PREVIEW_BYTES = 2 * 1024 * 1024;
+
+const image = base64Image({ maxBytes: MAX_PHOTO_BYTES });
+const previewImage = base64Image({ maxBytes: MAX_PREVIEW_BYTES });
+const id = string({ max: 200 });
+const text = string({ max: 200 });
+
+// ============================================================================
+// VEHICLE ANALYSIS - produced by analyze-vehicle, sent back by the client
+// (only the fields the analysis schema requires are required here)
+// ============================================================================
+
+const vehicleAnalysis: Validator<VehicleAnalysis> = object<VehicleAnalysis>({
+  make: text,
+  model: text,
+  year: string({ max: 20 }),
+  color: text,
+  category: oneOf(VehicleCategory),
+  isOffroad: optional(boolean(), false),
+  orientation: text,
+  facingDirection: text,
+  mods: optional(array(text), []),
+  installedAccessories: optional(array(text), []),
+  geometryAudit: optional(object({
+    bodyShape: optional(string(), ''),
+    windowLayout: optional(string(), ''),
+    frontDetail: optional(string(), ''),
+  }), { bodyShape: '', windowLayout: '', frontDetail: '' }),
+  wheelAudit: optional(object({
+    hasWhiteLettering: optional(boolean(), false),
+    hasCenterCaps: optional(boolean(), false),
+    centerCapColor: optional(text, ''),
+    wheelColor: optional(text, ''),
+    wheelFinish: optional(text, ''),
+    wheelType: optional(text, ''),
+  })),
+  visualFeatures: optional(object({
+    roofGear: optional(string(), ''),
+    wheelStyle: optional(string(), ''),
+    distinctiveMarkings: optional(string(), ''),
+  }), { roofGear: '', wheelStyle: '', distinctiveMarkings: '' }),
+  popularMods: optional(completeItems(object({
+    id: text,
+    name: text,
+    description: optional(string(), ''),
+  })), []),
+  popularWheels: optional(completeItems(object({
+    name: text,
+    style: optional(text, ''),
+  })), []),
+  suggestedStance: optional(oneOf(StanceStyle), StanceStyle.STOCK),
+  suggestedBackground: optional(oneOf(BackgroundTheme), BackgroundTheme.MOUNTAINS),
+});
+
+// ============================================================================
+// GENERATION OPTIONS
+// ============================================================================
+
+const generationOptions = {
+  analysis: vehicleAnalysis,
+  style: optional(oneOf(ArtStyle), ArtStyle.POSTER),
+  background: optional(oneOf(BackgroundTheme), BackgroundTheme.MOUNTAINS),
+  fidelity: optional(oneOf(FidelityMode), FidelityMode.CLEAN_BUILD),
+  position: optional(oneOf(PositionMode), PositionMode.AS_PHOTOGRAPHED),
+  stance: optional(oneOf(StanceStyle), StanceStyle.STOCK),
+  selectedMods: optional(array(text), []),
+  customCity: optional(string({ max: 80 })),
+};
+
+// ============================================================================
+// ROUTE BODIES
+// ============================================================================
+
+export const analyzeVehicleBody = object({
+  image,
+});
+
+// Preview candidates per generate-art request - each one is a Gemini call
+export const MAX_PREVIEW_CANDIDATES = 4;
+
+export const generateArtBody = object({
+  image,
+  ...generationOptions,
+  candidates: optional(integer({ min: 1, max: MAX_PREVIEW_CANDIDATES }), 1),
+});
+
+export const createArtSessionBody = object({
+  image,
+  previewArt: previewImage,
+  previewMimeType: optional(oneOf(['image/png', 'image/jpeg', 'image/webp']), 'image/png'),
+  ...generationOptions,
+});
+
+export const refineArtBody = object({
+  image,
+  previewArt: previewImage,
+  previewMimeType: optional(oneOf(['image/png', 'image/jpeg', 'image/webp']), 'image/png'),
+  instruction: string({ max: MAX_REFINEMENT_LENGTH }),
+});
+
+export const createCheckoutBody = object({
+  artSessionId: id,
+  vehicleInfo: optional(string({ max: 200 }), ''),
+  creditPackId: optional(id),
+  promoCode: optional(string({ max: 64 })),
+  tierId: optional(oneOf(PRODUCT_TIER_IDS)),
+});
+
+export const generateRemainingBody = object({
+  sessionId: optional(id),
+  artSessionId: id,
+  creditToken: optional(string({ max: 2000 })),
+  promoCode: optional(string({ max: 64 })),
+  tierId: optional(oneOf(PRODUCT_TIER_IDS)),
+  renderMode: optional(oneOf(RENDER_MODES), DEFAULT_RENDER_MODE),
+});
+
+export const recoverPackBody = object({
+  token: optional(string({ max: 2000 })),
+  email: optional(email()),
+  sessionId: optional(id),
+});
+
+export const devTokenBody = object({
+  password: optional(string({ max: 200 }), ''),
+  name: optional(string({ max: 80 }), 'staff'),
+});
+
+export type AnalyzeVehicleBody = Infer<typeof analyzeVehicleBody>;
+export type GenerateArtBody = Infer<typeof generateArtBody>;
+export type CreateArtSessionBody = Infer<typeof createArtSessionBody>;
+export type RefineArtBody = Infer<typeof refineArtBody>;
+export type CreateCheckoutBody = Infer<typeof createCheckoutBody>;
+export type GenerateRemainingBody = Infer<typeof generateRemainingBody>;
+export type RecoverPackBody = Infer<typeof recoverPackBody>;
+export type DevTokenBody = Infer<typeof devTokenBody>;
@@ -0,0 +1,147 @@
+/**
+ * Sandbox Mode
+ *
+ * SANDBOX_MODE=1 runs the whole flow on a laptop without live keys:
+ * - AI calls use the fixture providers (canned analysis, showcase images)
+ * - Stripe is replaced by a local stand-in: checkout sessions are stored on
+ *   disk and "paid" on the fake checkout page at /api/sandbox-checkout,
+ *   which then redirects back with the sandbox session_id like Stripe does
+ *
+ * Never enable in production - every checkout can be paid with one click.
+ */
+
+import type Stripe from 'stripe';
+import { randomUUID } from 'crypto';
+import { JsonFileStore } from './fileStore.js';
+
+export const isSandbox = (): boolean =>
+  process.env.SANDBOX_MODE === '1' || process.env.SANDBOX_MODE === 'true';
+
+// ============================================================================
+// PRICES - used when no real Stripe price ID is configured
+// ============================================================================
+
+const SANDBOX_PRICES: Record<string, number> = {
+  'price_sandbox_phone': 199,
+  'price_sandbox_pack': 399,
+  'price_sandbox_print-pack': 899,
+  'price_sandbox_credits-5': 1499,
+  'price_sandbox_credits-10': 2499,
+};
+
+/**
+ * Price ID for a product in sandbox mode, undefined otherwise
+ */
+export const sandboxPriceId = (key: string): string | undefined =>
+  isSandbox() ? `price_sandbox_${key}` : undefined;
+
+// ============================================================================
+// CHECKOUT SESSIONS
+// ============================================================================
+
+const sessions = new JsonFileStore<Stripe.Checkout.Session>('sandbox-checkout-sessions');
+const couponPercentOff = new Map<string, number>();
+
+export const getSandboxSession = (id: string) => sessions.get(id);
+
+/**
+ * Pay (or cancel) a sandbox checkout session - what Stripe's hosted page does
+ */
+export async function completeSandboxSession(
+  session: Stripe.Checkout.Session,
+  email: string
+): Promise<Stripe.Checkout.Session> {
+  const paid: Stripe.Checkout.Session = {
+    ...session,
+    status: 'complete',
+    payment_status: 'paid',
+    payment_intent: `pi_sandbox_${randomUUID()}`,
+    customer_details: { email } as Stripe.Checkout.Session.CustomerDetails,
+  };
+  await sessions.put(paid.id, paid);
+  return paid;
+}
+
+export async function expireSandboxSession(session: Stripe.Checkout.Session): Promise<Stripe.Checkout.Session> {
+  const expired: Stripe.Checkout.Session = { ...session, status: 'expired' };
+  await sessions.put(expired.id, expired);
+  return expired;
+}
+
+const notFound = (what: string, id: string) =>
+  Object.assign(new Error(`No such ${what}: '${id}'`), { type: 'StripeInvalidRequestError', statusCode: 404 });
+
+const createSession = async (params: Stripe.Checkout.SessionCreateParams): Promise<Stripe.Checkout.Session> => {
+  const id = `cs_sandbox_${randomUUID().replace(/-/g, '')}`;
+  const priceId = params.line_items?.[0]?.price || '';
+
+  // Percent-off discounts are the only kind the sandbox understands
+  const discount = params.discounts?.[0];
+  const percentOff = discount?.coupon ? couponPercentOff.get(discount.coupon) || 0 : 0;
+  const amount = Math.round((SANDBOX_PRICES[priceId] ?? 399) * (1 - percentOff / 100));
+
+  const session = {
+    id,
+    object: 'checkout.session',
+    status: 'open',
+    payment_status: 'unpaid',
+    mode: 'payment',
+    amount_total: amount,
+    currency: 'usd',
+    metadata: params.metadata || {},
+    success_url: params.success_url,
+    cancel_url: params.cancel_url,
+    customer_details: null,
+    payment_intent: null,
+    created: Math.floor(Date.now() / 1000),
+    url: `${new URL(params.success_url!).origin}/api/sandbox-checkout?session=${id}`,
+  } as unknown as Stripe.Checkout.Session;
+
+  await sessions.put(id, session);
+  return session;
+};
+
+// ============================================================================
+// STRIPE STAND-IN - only the calls the API routes make
+// ============================================================================
+
+/**
+ * A Stripe-shaped client backed by the sandbox session store
+ */
+export function createSandboxStripe(): Stripe {
+  const client = {
+    checkout: {
+      sessions: {
+        create: createSession,
+        retrieve: async (id: string) => {
+          const session = await sessions.get(id);
+          if (!session) throw notFound('checkout.session', id);
+          return session;
+        },
+        // Refund lookups come from webhooks, which the sandbox never sends
+        list: async () => ({ data: [], has_more: false }),
+      },
+    },
+    prices: {
+      retrieve: async (id: string) => {
+        if (!(id in SANDBOX_PRICES)) throw notFound('price', id);
+        return { id, unit_amount: SANDBOX_PRICES[id], currency: 'usd' };
+      },
+    },
+    promotionCodes: {
+      list: async () => ({ data: [], has_more: false }),
+    },
+    coupons: {
+      retrieve: async (id: string) => {
+        if (!couponPercentOff.has(id)) throw notFound('coupon', id);
+        return { id, percent_off: couponPercentOff.get(id) };
+      },
+      create: async (params: Stripe.CouponCreateParams) => {
+        couponPercentOff.set(params.id!, params.percent_off || 0);
+        return { id: params.id, percent_off: params.percent_off };
+      },
+    },
+  };
+
+  return client as unknown as Stripe;
+}
@@ -0,0 +1,44 @@
+/**
+ * Signed Tokens
+ *
+ * Compact HMAC-SHA256 signed, expiring tokens: base64url(payload).base64url(sig).
+ * Used for links and credentials that must not be forgeable by the client.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+interface SignedPayload {
+  exp: number;  // Expiry, ms since epoch
+}
+
+const sign = (data: string, secret: string): string =>
+  createHmac('sha256', secret).update(data).digest('base64url');
+
+export function signToken<T extends object>(payload: T, secret: string, ttlMs: number): string {
+  const body = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + ttlMs })).toString('base64url');
+  return `${body}.${sign(body, secret)}`;
+}
+
+/**
+ * Returns the payload, or null if the token is malformed, forged or expired
+ */
+export function verifyToken<T extends object>(token: unknown, secret: string): (T & SignedPayload) | null {
+  if (typeof token !== 'string') return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (typeof payload.exp !== 'number' || payload.exp < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
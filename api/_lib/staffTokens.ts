@@ -0,0 +1,43 @@
+/**
+ * Staff Tokens
+ *
+ * HMAC-signed, expiring tokens that let the team render full packs without
+ * paying. Issued by /api/dev-token, accepted by generate-remaining in place
+ * of a paid checkout session.
+ */
+
+import type { VercelRequest } from '@vercel/node';
+import { signToken, verifyToken } from './signing.js';
+
+export const STAFF_TOKEN_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+export const STAFF_TOKEN_HEADER = 'x-staff-token';
+
+interface StaffPayload {
+  role: 'staff';
+  name: string;   // Who the token was issued to - for logs
+}
+
+/**
+ * Returns null when DEV_TOKEN_SECRET is not configured
+ */
+export function createStaffToken(name: string): { token: string; expiresAt: number } | null {
+  const secret = process.env.DEV_TOKEN_SECRET;
+  if (!secret) return null;
+  const token = signToken<StaffPayload>({ role: 'staff', name }, secret, STAFF_TOKEN_TTL_MS);
+  return { token, expiresAt: Date.now() + STAFF_TOKEN_TTL_MS };
+}
+
+/**
+ * Returns the token payload, or null if missing, forged or expired
+ */
+export function verifyStaffToken(token: unknown) {
+  const secret = process.env.DEV_TOKEN_SECRET;
+  if (!secret) return null;
+  const payload = verifyToken<StaffPayload>(token, secret);
+  return payload?.role === 'staff' ? payload : null;
+}
+
+/**
+ * Staff token sent with the request (X-Staff-Token header), if valid
+ */
+export const getRequestStaff = (req: VercelRequest) => verifyStaffToken(req.headers[STAFF_TOKEN_HEADER]);
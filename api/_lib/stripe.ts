@@ -0,0 +1,57 @@
+/**
+ * Shared Stripe client (and cached price lookups) for serverless routes.
+ * Returns null when STRIPE_SECRET_KEY is not configured.
+ * In sandbox mode it is the local stand-in instead - no key needed.
+ */
+
+import Stripe from 'stripe';
+import { createSandboxStripe, isSandbox } from './sandbox.js';
+import { logger } from './logger.js';
+
+let client: Stripe | null | undefined;
+
+export function getStripe(): Stripe | null {
+  if (client === undefined && isSandbox()) {
+    client = createSandboxStripe();
+  }
+  if (client === undefined) {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+      logger.error('STRIPE_SECRET_KEY is not configured');
+    }
+    client = secretKey ? new Stripe(secretKey) : null;
+  }
+  return client;
+}
+
+/**
+ * Whether a checkout session entitles what it was for. A 100% discount
+ * completes with 'no_payment_required' rather than 'paid'.
+ */
+export const isSessionPaid = (session: Stripe.Checkout.Session): boolean =>
+  session.payment_status === 'paid'
+  || (session.payment_status === 'no_payment_required' && session.amount_total === 0);
+
+export interface PriceInfo {
+  amount: number | null;      // Smallest currency unit
+  currency: string;
+}
+
+// Price amounts rarely change - look them up once per instance
+const priceCache = new Map<string, PriceInfo>();
+
+/**
+ * Display price for a Stripe price ID, or null without Stripe
+ */
+export async function getPriceInfo(priceId: string): Promise<PriceInfo | null> {
+  const cached = priceCache.get(priceId);
+  if (cached) return cached;
+
+  const stripe = getStripe();
+  if (!stripe) return null;
+
+  const price = await stripe.prices.retrieve(priceId);
+  const result = { amount: price.unit_amount, currency: price.currency };
+  priceCache.set(priceId, result);
+  return result;
+}
@@ -0,0 +1,187 @@
+/**
+ * AI Usage & Cost Accounting
+ *
+ * One record per model call (every attempt, including retries and fallbacks):
+ * model, latency, prompt size, image count, token usage and an estimated
+ * cost. Records are appended to one list per UTC day and also logged, so
+ * "what did yesterday's previews cost?" is a summary of that day.
+ *
+ * The day lists live in Redis when it is configured (see recordStore.ts), so
+ * every function instance adds to the same list. Without it they are JSON-lines
+ * files under DATA_DIR - on Vercel that is one instance's share of the calls,
+ * and the "AI call" log lines are the complete record.
+ *
+ * Costs are estimates from list prices - Gemini reports token usage per
+ * call, but billing is the source of truth.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { Redis } from '@upstash/redis';
+import { DATA_DIR } from './fileStore.js';
+import { getRedis } from './recordStore.js';
+import { getRequestContext, logger } from './logger.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AiCallRecord {
+  id: string;
+  at: string;
+  requestId?: string;
+  route?: string;
+  provider: string;
+  callType: string;             // analysis | preview | render | outpaint | refine | audit
+  model: string;
+  ok: boolean;
+  errorKind?: string;
+  latencyMs: number;
+  promptChars: number;
+  imageCount: number;           // Input images sent with the prompt
+  inputTokens?: number;         // As reported by the model - absent when no response came back
+  outputTokens?: number;
+  estimatedCostUsd: number;
+}
+
+export type AiCallInput = Omit<AiCallRecord, 'id' | 'at' | 'requestId' | 'route' | 'estimatedCostUsd'>;
+
+export interface UsageSummary {
+  day: string;                  // YYYY-MM-DD (UTC)
+  calls: number;
+  failedCalls: number;
+  estimatedCostUsd: number;
+  byCallType: Record<string, { calls: number; estimatedCostUsd: number }>;
+  byModel: Record<string, { calls: number; estimatedCostUsd: number }>;
+}
+
+export interface UsageStore {
+  append(record: AiCallRecord): Promise<void>;
+  listDay(day: string): Promise<AiCallRecord[]>;
+}
+
+// ============================================================================
+// PRICING - USD per 1M tokens (image output is billed as output tokens)
+// ============================================================================
+
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-pro-image-preview': { input: 2.0, output: 120.0 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30.0 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3.0 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+};
+
+/**
+ * Estimated cost of one call - 0 for unknown models and calls without usage
+ */
+export function estimateCost(model: string, inputTokens = 0, outputTokens = 0): number {
+  const price = MODEL_PRICES[model];
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class FileUsageStore implements UsageStore {
+  private readonly dir = path.join(DATA_DIR, 'ai-usage');
+
+  async append(record: AiCallRecord) {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.appendFile(path.join(this.dir, `${record.at.slice(0, 10)}.jsonl`), `${JSON.stringify(record)}\n`);
+  }
+
+  async listDay(day: string) {
+    try {
+      const raw = await fs.readFile(path.join(this.dir, `${day}.jsonl`), 'utf8');
+      return raw.split('\n').filter(Boolean).map(line => JSON.parse(line) as AiCallRecord);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+// Day lists are summaries of past spend, not records customers depend on
+const USAGE_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+/**
+ * One list per UTC day, shared by every function instance
+ */
+export class RedisUsageStore implements UsageStore {
+  constructor(private client: Redis) {}
+
+  async append(record: AiCallRecord) {
+    const key = `ai-usage:${record.at.slice(0, 10)}`;
+    await this.client.rpush(key, record);
+    await this.client.expire(key, USAGE_RETENTION_SECONDS);
+  }
+
+  listDay(day: string) {
+    return this.client.lrange<AiCallRecord>(`ai-usage:${day}`, 0, -1);
+  }
+}
+
+let store: UsageStore | null = null;
+
+export function getUsageStore(): UsageStore {
+  if (!store) {
+    const redis = getRedis();
+    store = redis ? new RedisUsageStore(redis) : new FileUsageStore();
+  }
+  return store;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Record one model call. Never throws - accounting must not fail a generation.
+ */
+export async function recordAiCall(call: AiCallInput): Promise<void> {
+  const context = getRequestContext();
+  const record: AiCallRecord = {
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    requestId: context?.requestId,
+    route: context?.route,
+    ...call,
+    // A response that failed parsing (no image, blocked) was still billed
+    estimatedCostUsd: estimateCost(call.model, call.inputTokens, call.outputTokens),
+  };
+
+  logger.info('AI call', { aiCall: record });
+  try {
+    await getUsageStore().append(record);
+  } catch (error) {
+    logger.error('Failed to record AI usage', { error, aiCallId: record.id });
+  }
+}
+
+const round = (usd: number) => Math.round(usd * 10_000) / 10_000;
+
+export async function summarizeUsage(day: string): Promise<UsageSummary> {
+  const records = await getUsageStore().listDay(day);
+  const summary: UsageSummary = { day, calls: 0, failedCalls: 0, estimatedCostUsd: 0, byCallType: {}, byModel: {} };
+
+  for (const record of records) {
+    summary.calls++;
+    if (!record.ok) summary.failedCalls++;
+    summary.estimatedCostUsd += record.estimatedCostUsd;
+
+    for (const [group, key] of [[summary.byCallType, record.callType], [summary.byModel, record.model]] as const) {
+      const totals = group[key] ||= { calls: 0, estimatedCostUsd: 0 };
+      totals.calls++;
+      totals.estimatedCostUsd += record.estimatedCostUsd;
+    }
+  }
+
+  summary.estimatedCostUsd = round(summary.estimatedCostUsd);
+  for (const group of [summary.byCallType, summary.byModel]) {
+    for (const totals of Object.values(group)) totals.estimatedCostUsd = round(totals.estimatedCostUsd);
+  }
+  return summary;
+}
@@ -0,0 +1,181 @@
+/**
+ * Request Validation
+ *
+ * Tiny composable validators for request bodies. Each validator checks an
+ * unknown value and returns it typed (with defaults applied), or throws a
+ * ValidationError naming the offending field.
+ *
+ * Handlers answer validation failures with a 400:
+ *   { error: { code, message, field } }
+ */
+
+import type { VercelResponse } from '@vercel/node';
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export type ValidationCode = 'missing_field' | 'invalid_type' | 'invalid_value' | 'too_large';
+
+export class ValidationError extends Error {
+  public status = 400;
+
+  constructor(public code: ValidationCode, public field: string, message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export const sendValidationError = (res: VercelResponse, error: ValidationError) =>
+  res.status(error.status).json({
+    error: { code: error.code, message: error.message, field: error.field }
+  });
+
+// ============================================================================
+// VALIDATORS
+// ============================================================================
+
+export type Validator<T> = (value: unknown, field: string) => T;
+
+// The parsed type of a validator - e.g. the body type of a route schema
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+const missing = (field: string) =>
+  new ValidationError('missing_field', field, `${field} is required`);
+
+/**
+ * Absent (undefined, null or '') values become the fallback instead of an error
+ */
+export const optional = <T, D extends T | undefined = undefined>(validator: Validator<T>, fallback?: D): Validator<T | D> =>
+  (value, field) => isMissing(value) ? fallback as D : validator(value, field);
+
+export const string = ({ max = 1000 }: { max?: number } = {}): Validator<string> =>
+  (value, field) => {
+    if (isMissing(value)) throw missing(field);
+    if (typeof value !== 'string') {
+      throw new ValidationError('invalid_type', field, `${field} must be a string`);
+    }
+    if (value.length > max) {
+      throw new ValidationError('too_large', field, `${field} must be at most ${max} characters`);
+    }
+    return value;
+  };
+
+export const integer = ({ min = 0, max = Number.MAX_SAFE_INTEGER }: { min?: number; max?: number } = {}): Validator<number> =>
+  (value, field) => {
+    if (isMissing(value)) throw missing(field);
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw new ValidationError('invalid_type', field, `${field} must be a whole number`);
+    }
+    if (value < min || value > max) {
+      throw new ValidationError('invalid_value', field, `${field} must be between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+export const boolean = (): Validator<boolean> =>
+  (value, field) => {
+    if (typeof value !== 'boolean') {
+      throw new ValidationError('invalid_type', field, `${field} must be true or false`);
+    }
+    return value;
+  };
+
+export const email = (): Validator<string> =>
+  (value, field) => {
+    const address = string({ max: 254 })(value, field).trim();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+      throw new ValidationError('invalid_value', field, `${field} must be an email address`);
+    }
+    return address;
+  };
+
+/**
+ * One of the values of a string enum (or a plain list of strings)
+ */
+export const oneOf = <T extends string>(values: Record<string, T> | readonly T[]): Validator<T> => {
+  const allowed = (Array.isArray(values) ? values : Object.values(values)) as T[];
+  return (value, field) => {
+    if (isMissing(value)) throw missing(field);
+    if (!allowed.includes(value as T)) {
+      throw new ValidationError('invalid_value', field, `${field} must be one of: ${allowed.join(', ')}`);
+    }
+    return value as T;
+  };
+};
+
+export const array = <T>(item: Validator<T>, { max = 50 }: { max?: number } = {}): Validator<T[]> =>
+  (value, field) => {
+    if (isMissing(value)) throw missing(field);
+    if (!Array.isArray(value)) {
+      throw new ValidationError('invalid_type', field, `${field} must be a list`);
+    }
+    if (value.length > max) {
+      throw new ValidationError('too_large', field, `${field} must have at most ${max} items`);
+    }
+    return value.map((entry, index) => item(entry, `${field}[${index}]`));
+  };
+
+/**
+ * List that drops items missing a required field instead of rejecting the
+ * whole value - for model-generated lists where a partial item is just noise
+ */
+export const completeItems = <T>(item: Validator<T>, { max = 50 }: { max?: number } = {}): Validator<T[]> => {
+  const orSkip: Validator<T | undefined> = (entry, field) => {
+    try {
+      return item(entry, field);
+    } catch (error) {
+      if (error instanceof ValidationError && error.code === 'missing_field') return undefined;
+      throw error;
+    }
+  };
+  return (value, field) =>
+    array(orSkip, { max })(value, field).filter((entry): entry is T => entry !== undefined);
+};
+
+/**
+ * Object with known fields - unknown keys are dropped
+ */
+export const object = <T extends object>(
+  shape: { [K in keyof T]: Validator<T[K]> }
+): Validator<T> =>
+  (value, field) => {
+    if (isMissing(value)) throw missing(field);
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      throw new ValidationError('invalid_type', field, `${field} must be an object`);
+    }
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const child = field ? `${field}.${key}` : key;
+      const parsed = shape[key]((value as Record<string, unknown>)[key], child);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result;
+  };
+
+/**
+ * Raw base64 image data (no data: URL prefix), limited by decoded size
+ */
+export const base64Image = ({ maxBytes }: { maxBytes: number }): Validator<string> =>
+  (value, field) => {
+    if (isMissing(value)) throw missing(field);
+    if (typeof value !== 'string') {
+      throw new ValidationError('invalid_type', field, `${field} must be base64 image data`);
+    }
+    if (Math.floor(value.length * 3 / 4) > maxBytes) {
+      throw new ValidationError('too_large', field, `${field} must be smaller than ${Math.round(maxBytes / 1024 / 1024)}MB`);
+    }
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+      throw new ValidationError('invalid_value', field, `${field} must be base64 image data`);
+    }
+    return value;
+  };
+
+/**
+ * Validate a request body - the top-level field name is empty so errors
+ * name the body's own keys ("analysis.make", not "body.analysis.make")
+ */
+export const parseBody = <T>(validator: Validator<T>, body: unknown): T =>
+  validator(body ?? {}, '');
@@ -6,60 +6,29 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI } from '@google/genai';
-import { ANALYZE_VEHICLE_PROMPT, ANALYZE_VEHICLE_SCHEMA, VehicleCategory } from './templates.js';
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  // Handle preflight
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  // Only allow POST
-  if (req.method !== 'POST') {
-    res.setHeader('Allow', 'POST');
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  // Check API key configuration
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    console.error('GEMINI_API_KEY is not configured!');
+import { VehicleCategory } from '../shared/schema.js';
+import { getAiProviders, ProviderError } from './_lib/providers/index.js';
+import { analyzeVehicleBody, type AnalyzeVehicleBody } from './_lib/requestSchemas.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+// maxDuration is 60s (vercel.json) - leave time to respond
+const TIME_BUDGET_MS = 55 * 1000;
+
+async function handler(req: VercelRequest, res: VercelResponse, body: AnalyzeVehicleBody) {
+  // Check AI provider configuration
+  const providers = getAiProviders();
+  if (!providers) {
     return res.status(500).json({ error: 'AI service not configured' });
   }
 
   try {
-    const { image } = req.body;
+    const { image } = body;
+    const deadline = Date.now() + TIME_BUDGET_MS;
 
-    if (!image) {
-      return res.status(400).json({ error: 'Image is required' });
-    }
+    // Provider runs the SECRET prompt (never exposed to client)
+    const result = await providers.analysis.analyzeVehicle(image, deadline);
 
-    // Initialize Gemini
-    const ai = new GoogleGenAI({ apiKey });
-
-    // Call Gemini with SECRET prompt (never exposed to client)
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: { 
-        parts: [
-          { inlineData: { mimeType: "image/jpeg", data: image } }, 
-          { text: ANALYZE_VEHICLE_PROMPT }
-        ] 
-      },
-      config: { 
-        responseMimeType: "application/json", 
-        responseSchema: ANALYZE_VEHICLE_SCHEMA,
-        tools: [{ googleSearch: {} }]
-      }
-    });
-
-    const result = JSON.parse(response.text!);
     result.category = result.category as VehicleCategory;
 
     return res.status(200).json({
@@ -68,9 +37,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
 
   } catch (error: any) {
-    console.error('Analysis failed:', error);
-    return res.status(500).json({ 
-      error: error.message || 'Analysis failed' 
-    });
+    if (error instanceof ProviderError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Analysis failed', { error });
+    return res.status(500).json({ error: 'Analysis failed' });
   }
 }
+
+// Every call costs a Gemini request - limited per IP and per device
+export default withApi({ methods: ['POST'], validate: analyzeVehicleBody, rateLimit: 'analysis' }, handler);
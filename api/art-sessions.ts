@@ -0,0 +1,74 @@
+/**
+ * Serverless API: Art Sessions
+ *
+ * POST - Store the source photo, generation params and approved preview
+ *        (fitted to the exact phone size) before checkout. Returns the art
+ *        session ID sent in Stripe metadata.
+ * GET  - Load an art session by ID (?id=) to resume after checkout.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  createArtSessionId,
+  getArtSessionStore,
+  toGenerateArtParams
+} from './_lib/artSessions.js';
+import { createArtSessionBody, type CreateArtSessionBody } from './_lib/requestSchemas.js';
+import { AspectRatioError, fitToFormat } from './_lib/imageOutput.js';
+import { ValidationError, sendValidationError } from './_lib/validation.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+async function handler(req: VercelRequest, res: VercelResponse, body: CreateArtSessionBody) {
+  const store = getArtSessionStore();
+
+  try {
+    if (req.method === 'GET') {
+      const { id } = req.query;
+
+      if (!id || typeof id !== 'string') {
+        return res.status(400).json({ error: 'Missing id' });
+      }
+
+      const session = await store.get(id);
+      if (!session) {
+        return res.status(404).json({ error: 'Art session not found' });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: session
+      });
+    }
+
+    // The preview is delivered as the phone wallpaper - it must be phone-shaped
+    let preview;
+    try {
+      preview = await fitToFormat({ data: body.previewArt, mimeType: body.previewMimeType }, 'phone');
+    } catch (error) {
+      if (!(error instanceof AspectRatioError)) throw error;
+      return sendValidationError(res, new ValidationError('invalid_value', 'previewArt', 'previewArt must be a phone wallpaper preview'));
+    }
+
+    const id = createArtSessionId();
+    await store.save({
+      id,
+      sourceImage: body.image,
+      params: toGenerateArtParams(body),
+      previewArt: preview.data,
+      previewMimeType: preview.mimeType,
+      createdAt: new Date().toISOString(),
+    });
+
+    return res.status(200).json({
+      success: true,
+      id
+    });
+
+  } catch (error: any) {
+    logger.error('Art session error', { error });
+    return res.status(500).json({ error: 'Art session failed' });
+  }
+}
+
+export default withApi({ methods: ['GET', 'POST'], validate: createArtSessionBody }, handler);
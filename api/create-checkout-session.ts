@@ -1,71 +1,96 @@
-import Stripe from 'stripe';
+import type Stripe from 'stripe';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStripe } from './_lib/stripe.js';
+import { isSandbox } from './_lib/sandbox.js';
+import { getArtSessionStore } from './_lib/artSessions.js';
+import { getStorageStatus } from './_lib/recordStore.js';
+import { getCreditPack } from './_lib/credits.js';
+import { DEFAULT_TIER_ID, getProductTier } from './_lib/catalog.js';
+import { PromoError, getCampaignCoupon, resolvePromoCode } from './_lib/promotions.js';
+import { createCheckoutBody, type CreateCheckoutBody } from './_lib/requestSchemas.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
 
-// Check if Stripe key is configured
-const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-const stripePriceId = process.env.STRIPE_PRICE_ID;
-
-if (!stripeSecretKey) {
-  console.error('STRIPE_SECRET_KEY is not configured!');
-}
-
-// Initialize Stripe with secret key
-const stripe = stripeSecretKey ? new Stripe(stripeSecretKey) : null;
+async function handler(req: VercelRequest, res: VercelResponse, body: CreateCheckoutBody) {
+  // Check configuration
+  const stripe = getStripe();
+  if (!stripe) {
+    return res.status(500).json({ error: 'Payment service not configured' });
+  }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  try {
+    const { artSessionId, vehicleInfo, creditPackId, promoCode, tierId } = body;
 
-  // Handle preflight
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+    // Product tier decides the price and which formats fulfilment renders
+    const tier = getProductTier(tierId || DEFAULT_TIER_ID);
+    if (!tier?.priceId) {
+      return res.status(400).json({ error: 'Unknown product' });
+    }
 
-  // Only allow POST
-  if (req.method !== 'POST') {
-    res.setHeader('Allow', 'POST');
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
+    // Optional credit bundle instead of the single pack
+    const creditPack = creditPackId ? getCreditPack(creditPackId) : undefined;
+    if (creditPackId && !creditPack) {
+      return res.status(400).json({ error: 'Unknown credit pack' });
+    }
 
-  // Check configuration
-  if (!stripe || !stripePriceId) {
-    console.error('Missing config:', { hasStripe: !!stripe, hasPriceId: !!stripePriceId });
-    return res.status(500).json({ 
-      error: 'Payment service not configured',
-      debug: { hasStripeKey: !!stripeSecretKey, hasPriceId: !!stripePriceId }
-    });
-  }
+    // Fulfilment resumes from the stored art session - it must exist before
+    // payment. Per-instance storage can't tell "unknown" from "stored on
+    // another instance", so there it's only logged.
+    if (!(await getArtSessionStore().get(artSessionId))) {
+      if (getStorageStatus().shared) {
+        return res.status(400).json({ error: 'Unknown art session' });
+      }
+      logger.warn('Art session not found on this instance', { artSessionId });
+    }
 
-  try {
-    const { artSessionId, vehicleInfo } = req.body;
+    // Promo code entered on the paywall - otherwise customers can still enter
+    // a Stripe promotion code on the checkout page itself
+    let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined;
+    if (promoCode) {
+      const promo = await resolvePromoCode(promoCode);
+      if (promo.kind === 'stripe') {
+        discounts = [{ promotion_code: promo.promotionCode.id }];
+      } else if (promo.campaign.type === 'percent_off') {
+        discounts = [{ coupon: await getCampaignCoupon(stripe, promo.campaign) }];
+      } else {
+        return res.status(400).json({ error: 'This code unlocks the pack for free - no checkout needed' });
+      }
+    }
 
     // Determine base URL - use FRONTEND_URL or fallback to production URL
-    const baseUrl = process.env.FRONTEND_URL || 'https://overland-art-director.vercel.app';
+    // (the sandbox returns to whichever local host served the request)
+    const baseUrl = process.env.FRONTEND_URL
+      || (isSandbox() ? `http://${req.headers.host}` : 'https://overland-art-director.vercel.app');
     
     // Build URLs for Stripe
     // Note: {CHECKOUT_SESSION_ID} is a Stripe template variable that gets replaced with actual session ID
     const successUrl = `${baseUrl}/?session_id={CHECKOUT_SESSION_ID}`;
-    const cancelUrl = `${baseUrl}/?cancelled=true`;
+    const cancelUrl = `${baseUrl}/?cancelled=true&art=${encodeURIComponent(artSessionId)}`;
 
-    console.log('Stripe config:', { baseUrl, successUrl, cancelUrl, artSessionId });
+    logger.info('Creating checkout session', { baseUrl, artSessionId, creditPackId, tierId: tier.id, promoCode });
 
     // Create Stripe Checkout Session
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       line_items: [
         {
-          price: stripePriceId,
+          price: creditPack ? creditPack.priceId : tier.priceId,
           quantity: 1,
         },
       ],
       mode: 'payment',
       success_url: successUrl,
       cancel_url: cancelUrl,
+      // Stripe rejects allow_promotion_codes together with discounts
+      ...(discounts ? { discounts } : { allow_promotion_codes: true }),
       metadata: {
-        artSessionId: artSessionId || '',
-        vehicleInfo: vehicleInfo || '',
+        artSessionId,
+        vehicleInfo,
+        tierId: tier.id,
+        // Bundles grant credits; the current artwork is then unlocked with one of them
+        ...(creditPack ? { kind: 'credits', creditPackId: creditPack.id, credits: String(creditPack.credits) } : {}),
+        // Campaign redemptions are counted once the payment completes
+        ...(discounts ? { promoCode: promoCode!.trim().toUpperCase() } : {}),
       },
     });
 
@@ -74,9 +99,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       sessionId: session.id 
     });
   } catch (error: any) {
-    console.error('Stripe error:', error);
-    return res.status(500).json({ 
-      error: error.message || 'Failed to create checkout session' 
-    });
+    if (error instanceof PromoError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Stripe error', { error });
+    return res.status(500).json({ error: 'Failed to create checkout session' });
   }
 }
+
+export default withApi({ methods: ['POST'], validate: createCheckoutBody }, handler);
@@ -0,0 +1,41 @@
+/**
+ * Serverless API: Credits
+ *
+ * GET - Available credit packs (with Stripe prices) and, when an
+ *       X-Credit-Token header is sent, the account's current balance.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getPriceInfo } from './_lib/stripe.js';
+import { CREDIT_PACKS, getCreditAccount, verifyCreditToken } from './_lib/credits.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const packs = await Promise.all(
+      CREDIT_PACKS
+        .filter(pack => pack.priceId)
+        .map(async (pack) => ({
+          id: pack.id,
+          credits: pack.credits,
+          label: pack.label,
+          price: await getPriceInfo(pack.priceId!),
+        }))
+    );
+
+    const accountId = verifyCreditToken(req.headers['x-credit-token']);
+    const account = accountId ? await getCreditAccount(accountId) : null;
+
+    return res.status(200).json({
+      success: true,
+      packs,
+      balance: account?.balance ?? null,
+    });
+  } catch (error: any) {
+    logger.error('Credits lookup failed', { error });
+    return res.status(500).json({ error: 'Credits lookup failed' });
+  }
+}
+
+export default withApi({ methods: ['GET'] }, handler);
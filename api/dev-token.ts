@@ -0,0 +1,59 @@
+/**
+ * Serverless API: Staff (Dev) Tokens
+ *
+ * POST { password, name } - Issue a signed staff token (STAFF_PASSWORD required)
+ * GET                     - Check the token in the X-Staff-Token header
+ *
+ * Open the app with ?dev_token=<token> to enable the staff controls.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createStaffToken, getRequestStaff } from './_lib/staffTokens.js';
+import { devTokenBody, type DevTokenBody } from './_lib/requestSchemas.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+const passwordMatches = (given: unknown, expected: string): boolean => {
+  if (typeof given !== 'string') return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+async function handler(req: VercelRequest, res: VercelResponse, body: DevTokenBody) {
+  if (req.method === 'GET') {
+    const staff = getRequestStaff(req);
+    return res.status(200).json({
+      valid: !!staff,
+      expiresAt: staff?.exp ?? null
+    });
+  }
+
+  const staffPassword = process.env.STAFF_PASSWORD;
+  if (!staffPassword || !process.env.DEV_TOKEN_SECRET) {
+    logger.error('Staff tokens not configured', {
+      hasPassword: !!staffPassword,
+      hasSecret: !!process.env.DEV_TOKEN_SECRET
+    });
+    return res.status(500).json({ error: 'Staff tokens not configured' });
+  }
+
+  const { password, name } = body;
+
+  if (!passwordMatches(password, staffPassword)) {
+    return res.status(401).json({ error: 'Invalid password' });
+  }
+
+  const issued = createStaffToken(name)!;
+  logger.info('Staff token issued', { name, expiresAt: new Date(issued.expiresAt).toISOString() });
+
+  return res.status(200).json({
+    success: true,
+    token: issued.token,
+    expiresAt: issued.expiresAt
+  });
+}
+
+// Password guesses are limited per IP - token checks (GET) are not counted
+export default withApi({ methods: ['GET', 'POST'], validate: devTokenBody, rateLimit: 'staff' }, handler);
@@ -0,0 +1,59 @@
+/**
+ * Serverless API: Download
+ *
+ * Serves one format of a completed pack as a file download:
+ * - GET ?token=<signed download token> - emailed after fulfilment, expires
+ *   after 7 days
+ * - GET ?job=<jobId>&format=<format>   - the app's links (see artFiles.ts);
+ *   the job ID is the key, as for /api/generation-status
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ART_FORMAT_IDS, type ArtFormat } from '../shared/schema.js';
+import { verifyDownloadToken } from './_lib/delivery.js';
+import { getArtFileStore } from './_lib/artFiles.js';
+import { getJobStore } from './_lib/jobs.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+const isArtFormat = (value: unknown): value is ArtFormat =>
+  ART_FORMAT_IDS.includes(value as ArtFormat);
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  const { job: jobId, format } = req.query;
+  const link = req.query.token !== undefined
+    ? verifyDownloadToken(req.query.token)
+    : typeof jobId === 'string' && isArtFormat(format) ? { jobId, format } : null;
+  if (!link) {
+    return res.status(403).json({ error: 'This download link is invalid or has expired' });
+  }
+
+  try {
+    const job = await getJobStore().get(link.jobId);
+    if (job?.status !== 'done' || !job.result?.formats.includes(link.format)) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    // Sets stored before art files kept every image inline
+    const file = await getArtFileStore().get(job.id, link.format);
+    const legacy = job.result.images?.[link.format];
+    const data = file?.data || legacy;
+    if (!data) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    // Sets stored before per-format types had one type for every format
+    const mimeType = file?.mimeType || job.result.mimeTypes?.[link.format] || job.result.mimeType;
+    const extension = mimeType.includes('jpeg') || mimeType.includes('jpg') ? 'jpg' : 'png';
+
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="GarageCanvas-${link.format}-4K.${extension}"`);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    return res.status(200).send(Buffer.from(data, 'base64'));
+  } catch (error: any) {
+    logger.error('Download failed', { error });
+    return res.status(500).json({ error: 'Download failed' });
+  }
+}
+
+export default withApi({ methods: ['GET'], cors: false }, handler);
@@ -1,106 +1,99 @@
 /**
  * Serverless API: Generate Art (Preview)
  * 
- * Generates a single phone wallpaper preview.
+ * Generates phone wallpaper previews, fitted to the exact phone size -
+ * `candidates` (1-4) of them in parallel for the customer to pick from.
+ * Returns every candidate that succeeded and fits in the response; fails
+ * only when none did.
+ * Each candidate is audited against the source photo and re-generated when
+ * it breaks a hard rule and the preview rate limit allows (see
+ * fidelityAudit.ts) - any violations left are returned with it, for the
+ * customer to see.
  * Prompts are built server-side - never exposed to client.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI } from '@google/genai';
 import { 
   buildBasePrompt, 
-  buildFirstGenerationPrompt,
-  VehicleAnalysis 
+  buildFirstGenerationPrompt
 } from './templates.js';
+import { getAiProviders, ProviderError } from './_lib/providers/index.js';
+import { toGenerateArtParams } from './_lib/artSessions.js';
+import { generateAudited } from './_lib/fidelityAudit.js';
+import { checkRateLimit } from './_lib/rateLimit.js';
+import { generateArtBody, type GenerateArtBody } from './_lib/requestSchemas.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+// maxDuration is 300s (vercel.json) - leave time to respond
+const TIME_BUDGET_MS = 290 * 1000;
 
-  // Handle preflight
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  // Only allow POST
-  if (req.method !== 'POST') {
-    res.setHeader('Allow', 'POST');
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
+// Vercel caps function responses at 4.5MB - base64 candidates past this are
+// dropped (a fitted preview is at most ~2.7MB, so the first always fits)
+const MAX_RESPONSE_BYTES = 4_000_000;
 
-  // Check API key configuration
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    console.error('GEMINI_API_KEY is not configured!');
+async function handler(req: VercelRequest, res: VercelResponse, body: GenerateArtBody) {
+  // Check AI provider configuration
+  const providers = getAiProviders();
+  if (!providers) {
     return res.status(500).json({ error: 'AI service not configured' });
   }
 
   try {
-    const { 
-      image, 
-      analysis, 
-      style, 
-      background, 
-      fidelity, 
-      position, 
-      stance, 
-      selectedMods,
-      customCity 
-    } = req.body;
-
-    if (!image || !analysis) {
-      return res.status(400).json({ error: 'Image and analysis are required' });
-    }
-
-    // Initialize Gemini
-    const ai = new GoogleGenAI({ apiKey });
+    const deadline = Date.now() + TIME_BUDGET_MS;
 
     // Build SECRET prompts (never exposed to client)
-    const basePrompt = buildBasePrompt({
-      analysis: analysis as VehicleAnalysis,
-      style: style || 'Poster Art',
-      background: background || 'Mountain Peaks',
-      fidelity: fidelity || 'Clean Build',
-      position: position || 'As Photographed',
-      stance: stance || 'Stock',
-      selectedMods: selectedMods || [],
-      popularWheelName: analysis.popularWheels?.[0]?.name,
-      customCity: customCity || undefined
-    });
+    const params = toGenerateArtParams(body);
+    const basePrompt = buildBasePrompt(params);
 
     const fullPrompt = buildFirstGenerationPrompt(basePrompt, 'phone');
 
-    // Generate image
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: { 
-        parts: [
-          { inlineData: { mimeType: "image/jpeg", data: image } },
-          { text: fullPrompt }
-        ] 
-      },
-      config: { responseModalities: ["image", "text"] },
-    });
+    // Same prompt for every candidate - the model's own variation tells them apart
+    const results = await Promise.allSettled(
+      Array.from({ length: body.candidates }, (_, index) => generateAudited(providers, {
+        kind: 'preview',
+        prompt: fullPrompt,
+        images: [{ mimeType: "image/jpeg", data: body.image }],
+        deadline,
+        variant: index
+      }, 'phone', { params, sourceImage: body.image }, {
+        // A re-generation is another preview - it must fit in the same limit
+        canRetry: async () => (await checkRateLimit(req, 'preview')) === null,
+      }))
+    );
 
-    // Extract image from response
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return res.status(200).json({
-          success: true,
-          data: part.inlineData.data,
-          mimeType: part.inlineData.mimeType || 'image/png'
-        });
-      }
+    const succeeded = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+    if (!succeeded.length) throw failures[0];
+    if (failures.length) {
+      logger.warn('Some preview candidates failed', { requested: body.candidates, failed: failures.length, error: failures[0] });
     }
 
-    throw new Error("No image generated");
+    let responseBytes = 0;
+    const candidates = succeeded.filter(candidate => (responseBytes += candidate.data.length) <= MAX_RESPONSE_BYTES);
+    if (candidates.length < succeeded.length) {
+      logger.warn('Preview candidates dropped to fit the response', { succeeded: succeeded.length, returned: candidates.length });
+    }
 
-  } catch (error: any) {
-    console.error('Generation failed:', error);
-    return res.status(500).json({ 
-      error: error.message || 'Generation failed' 
+    return res.status(200).json({
+      success: true,
+      candidates: candidates.map(({ data, mimeType, width, height, fidelityIssues }) => ({ data, mimeType, width, height, fidelityIssues }))
     });
+
+  } catch (error: any) {
+    if (error instanceof ProviderError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Generation failed', { error });
+    return res.status(500).json({ error: 'Generation failed' });
   }
 }
+
+// Every candidate costs a Gemini request, every fidelity re-generation another
+// (counted as it happens) - limited per IP and per device
+export default withApi({
+  methods: ['POST'],
+  validate: generateArtBody,
+  rateLimit: 'preview',
+  rateLimitCost: body => body.candidates,
+}, handler);
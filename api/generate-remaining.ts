@@ -1,124 +1,90 @@
 /**
  * Serverless API: Generate Remaining Formats
  * 
- * Generates Desktop (16:9) and Print (4:3) versions based on existing Phone preview.
- * Uses the phone art as a style reference for consistency.
+ * Starts a job that generates the purchased tier's formats (Desktop 16:9,
+ * Print 4:3, extra print sizes) based on the existing Phone preview, and
+ * returns its job ID immediately (202).
+ * Progress is reported by /api/generation-status.
  * Prompts are built server-side - never exposed to client.
+ * 
+ * Requires a paid Stripe Checkout session bound to the art session ID.
+ * The photo, params and preview are loaded from that art session.
+ * Idempotent per checkout session - repeat calls return the same job.
+ * A credit token spends one pack credit instead of a paid session.
+ * A free-pack campaign code unlocks the art session without payment.
+ * A valid staff token (X-Staff-Token header) replaces the paid session.
+ * renderMode picks how formats are derived from the preview: regenerate
+ * (default) or outpaint - see _lib/generation.ts.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI } from '@google/genai';
-import { 
-  buildBasePrompt, 
-  buildFollowUpGenerationPrompt,
-  VehicleAnalysis 
-} from './templates.js';
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  // Handle preflight
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+import { EntitlementError } from './_lib/entitlements.js';
+import { CreditError } from './_lib/credits.js';
+import { PromoError } from './_lib/promotions.js';
+import {
+  startCreditFulfilment,
+  startFulfilment,
+  startPromoFulfilment,
+  startStaffFulfilment
+} from './_lib/fulfilment.js';
+import { getRequestStaff } from './_lib/staffTokens.js';
+import { toJobStatus } from './_lib/jobs.js';
+import { getAiProviders } from './_lib/providers/index.js';
+import { generateRemainingBody, type GenerateRemainingBody } from './_lib/requestSchemas.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
 
-  // Only allow POST
-  if (req.method !== 'POST') {
-    res.setHeader('Allow', 'POST');
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  // Check API key configuration
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    console.error('GEMINI_API_KEY is not configured!');
+async function handler(req: VercelRequest, res: VercelResponse, body: GenerateRemainingBody) {
+  // Check AI provider configuration
+  const providers = getAiProviders();
+  if (!providers) {
     return res.status(500).json({ error: 'AI service not configured' });
   }
 
   try {
     const { 
-      image,           // Original vehicle photo
-      previewArt,      // Existing phone art (style reference)
-      analysis, 
-      style, 
-      background, 
-      fidelity, 
-      position, 
-      stance, 
-      selectedMods,
-      customCity 
-    } = req.body;
+      sessionId,       // Paid Stripe Checkout session
+      artSessionId,    // Art session ID sent in checkout metadata
+      creditToken,     // Credit account - spends one credit instead
+      promoCode,       // Free-pack campaign code
+      tierId,          // Staff only - paid tiers come from the checkout session
+      renderMode       // regenerate | outpaint
+    } = body;
 
-    if (!image || !previewArt || !analysis) {
-      return res.status(400).json({ error: 'Image, previewArt and analysis are required' });
+    const staff = getRequestStaff(req);
+    if (staff) {
+      logger.info('Staff generation', { staff: staff.name, artSessionId, renderMode });
     }
 
-    // Initialize Gemini
-    const ai = new GoogleGenAI({ apiKey });
-
-    // Build SECRET prompts (never exposed to client)
-    const basePrompt = buildBasePrompt({
-      analysis: analysis as VehicleAnalysis,
-      style: style || 'Poster Art',
-      background: background || 'Mountain Peaks',
-      fidelity: fidelity || 'Clean Build',
-      position: position || 'As Photographed',
-      stance: stance || 'Stock',
-      selectedMods: selectedMods || [],
-      popularWheelName: analysis.popularWheels?.[0]?.name,
-      customCity: customCity || undefined
-    });
-
-    // Helper to generate with reference image
-    const generateWithReference = async (format: 'desktop' | 'print'): Promise<{data: string, mimeType: string}> => {
-      const fullPrompt = buildFollowUpGenerationPrompt(basePrompt, format);
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
-        contents: { 
-          parts: [
-            { inlineData: { mimeType: "image/png", data: previewArt } },
-            { inlineData: { mimeType: "image/jpeg", data: image } },
-            { text: fullPrompt }
-          ] 
-        },
-        config: { responseModalities: ["image", "text"] },
+    if (!staff && creditToken) {
+      const { job, started, balance } = await startCreditFulfilment(creditToken, artSessionId, providers, renderMode);
+      return res.status(started ? 202 : 200).json({
+        success: true,
+        jobId: job.id,
+        job: toJobStatus(job, false),
+        creditBalance: balance
       });
+    }
 
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          return {
-            data: part.inlineData.data!,
-            mimeType: part.inlineData.mimeType || 'image/png'
-          };
-        }
-      }
-      throw new Error(`Failed to generate ${format}`);
-    };
-
-    // Generate Desktop (16:9)
-    const desktopResult = await generateWithReference('desktop');
-    
-    // Generate Print (4:3)
-    const printResult = await generateWithReference('print');
+    const { job, started } = staff
+      ? await startStaffFulfilment(artSessionId, tierId, providers, renderMode)
+      : promoCode
+        ? await startPromoFulfilment(promoCode, artSessionId, providers, renderMode)
+        : await startFulfilment(sessionId, artSessionId, providers, renderMode);
 
-    return res.status(200).json({
+    return res.status(started ? 202 : 200).json({
       success: true,
-      data: {
-        phone: previewArt,  // Reuse the preview
-        desktop: desktopResult.data,
-        print: printResult.data
-      },
-      mimeType: desktopResult.mimeType // All should be same format
+      jobId: job.id,
+      job: toJobStatus(job, false)
     });
 
   } catch (error: any) {
-    console.error('Generation failed:', error);
-    return res.status(500).json({ 
-      error: error.message || 'Generation failed' 
-    });
+    if (error instanceof EntitlementError || error instanceof CreditError || error instanceof PromoError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Generation failed to start', { error });
+    return res.status(500).json({ error: 'Generation failed' });
   }
 }
+
+export default withApi({ methods: ['POST'], validate: generateRemainingBody }, handler);
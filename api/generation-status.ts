@@ -0,0 +1,94 @@
+/**
+ * Serverless API: Generation Status
+ *
+ * GET ?id=<jobId> - Current job status with per-format progress.
+ *                   Includes the generated art once the job is done.
+ *
+ * With `Accept: text/event-stream` (EventSource) the status is streamed as
+ * Server-Sent Events instead:
+ *   event: progress  - job status changed (no art payload)
+ *   event: done      - job finished, fetch the status once more for the art
+ *   event: failed    - job failed, data carries the error
+ * The stream closes after STREAM_WINDOW_MS; EventSource reconnects on its own.
+ * A job past its deadline is reported as failed (see jobs.ts).
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getJob, toJobStatus } from './_lib/jobs.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+const POLL_INTERVAL_MS = 1000;
+const STREAM_WINDOW_MS = 55000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Missing id' });
+  }
+
+  try {
+    const job = await getJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    // Plain polling
+    if (!req.headers.accept?.includes('text/event-stream')) {
+      return res.status(200).json({
+        success: true,
+        data: toJobStatus(job, true)
+      });
+    }
+
+    // SSE stream
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    });
+
+    let closed = false;
+    req.on('close', () => { closed = true; });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const deadline = Date.now() + STREAM_WINDOW_MS;
+    let lastSent = '';
+
+    while (!closed && Date.now() < deadline) {
+      const current = await getJob(id);
+      if (!current) break;
+
+      const status = toJobStatus(current, false);
+      const serialized = JSON.stringify(status);
+      if (serialized !== lastSent) {
+        lastSent = serialized;
+        send('progress', status);
+      }
+
+      if (current.status === 'done' || current.status === 'failed') {
+        send(current.status, status);
+        break;
+      }
+
+      await sleep(POLL_INTERVAL_MS);
+    }
+
+    return res.end();
+
+  } catch (error: any) {
+    logger.error('Status lookup failed', { error });
+    if (res.headersSent) {
+      return res.end();
+    }
+    return res.status(500).json({ error: 'Status lookup failed' });
+  }
+}
+
+export default withApi({ methods: ['GET'] }, handler);
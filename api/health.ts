@@ -0,0 +1,44 @@
+/**
+ * Serverless API: Health
+ *
+ * GET - Configuration status: whether AI, payments, shared storage and
+ *       email are configured, which models and Stripe price IDs are in use.
+ *       200 when customers can complete a purchase, 503 (same body) when
+ *       they can't.
+ *       With a staff token (X-Staff-Token header) it also runs connectivity
+ *       checks against the AI provider, Stripe and Redis.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getConfigStatus, runConnectivityChecks } from './_lib/health.js';
+import { getRequestStaff } from './_lib/staffTokens.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  const status = getConfigStatus();
+  const checks = getRequestStaff(req) ? await runConnectivityChecks() : undefined;
+
+  if (!status.ready) {
+    logger.warn('Health check not ready', {
+      ai: status.ai.configured,
+      payments: status.payments.configured,
+      storage: status.storage.shared,
+    });
+  }
+  if (!status.mail.configured) {
+    logger.warn('Health check: email not configured', { transport: status.mail.transport });
+  }
+  const failedChecks = checks?.filter(check => !check.ok);
+  if (failedChecks?.length) {
+    logger.warn('Connectivity checks failed', { checks: failedChecks });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(status.ready ? 200 : 503).json({
+    ...status,
+    ...(checks ? { checks } : {}),
+  });
+}
+
+export default withApi({ methods: ['GET'] }, handler);
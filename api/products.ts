@@ -0,0 +1,38 @@
+/**
+ * Serverless API: Products
+ *
+ * GET - The product catalog: purchasable tiers (with Stripe prices) and the
+ *       formats each one unlocks, plus display info for every format.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getPriceInfo } from './_lib/stripe.js';
+import { ART_FORMATS, getPurchasableTiers } from './_lib/catalog.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const tiers = await Promise.all(
+      getPurchasableTiers().map(async (tier) => ({
+        id: tier.id,
+        label: tier.label,
+        shortLabel: tier.shortLabel,
+        description: tier.description,
+        formats: tier.formats,
+        price: await getPriceInfo(tier.priceId!),
+      }))
+    );
+
+    return res.status(200).json({
+      success: true,
+      tiers,
+      formats: ART_FORMATS,
+    });
+  } catch (error: any) {
+    logger.error('Product lookup failed', { error });
+    return res.status(500).json({ error: 'Product lookup failed' });
+  }
+}
+
+export default withApi({ methods: ['GET'] }, handler);
@@ -0,0 +1,33 @@
+/**
+ * Serverless API: Promo Codes
+ *
+ * GET ?code=<code> - Check a promo or campaign code before checkout so the
+ *                    paywall can show the discount (or the free unlock).
+ *                    Rate limited, so codes can't be guessed by trying them.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { PromoError, describePromo, resolvePromoCode } from './_lib/promotions.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const promo = await resolvePromoCode(req.query.code);
+
+    return res.status(200).json({
+      success: true,
+      code: String(req.query.code).trim().toUpperCase(),
+      freePack: promo.kind === 'campaign' && promo.campaign.type === 'free_pack',
+      description: describePromo(promo),
+    });
+  } catch (error: any) {
+    if (error instanceof PromoError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Promo code lookup failed', { error });
+    return res.status(500).json({ error: 'Promo code lookup failed' });
+  }
+}
+
+export default withApi({ methods: ['GET'], rateLimit: 'promo', rateLimitMethods: ['GET'] }, handler);
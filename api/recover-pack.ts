@@ -0,0 +1,127 @@
+/**
+ * Serverless API: Recover Pack
+ *
+ * Lets a customer get a paid pack back when the normal return from Stripe
+ * failed. Accepts either:
+ * - { email, sessionId }  - order email plus Stripe Checkout session ID
+ * - { token }             - signed recovery link token
+ *
+ * Returns the fulfilment job (existing or newly started) and the art session ID.
+ * Credit bundle orders also get their credit token re-issued - the bundle's
+ * artwork is unlocked with a credit, as on the normal return.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStripe, isSessionPaid } from './_lib/stripe.js';
+import { getOrderStore, recordOrder, Order } from './_lib/orders.js';
+import { EntitlementError } from './_lib/entitlements.js';
+import { startCreditFulfilment, startFulfilment } from './_lib/fulfilment.js';
+import { createCreditToken, CreditError, grantCreditsForSession } from './_lib/credits.js';
+import { toJobStatus } from './_lib/jobs.js';
+import { createRecoveryToken, verifyRecoveryToken } from './_lib/recovery.js';
+import { getAiProviders } from './_lib/providers/index.js';
+import { recoverPackBody, type RecoverPackBody } from './_lib/requestSchemas.js';
+import { sendValidationError, ValidationError } from './_lib/validation.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+// Same answer for "no such order" and "wrong email" - don't leak which one
+const NOT_FOUND = 'No order found for that email and order reference';
+
+/**
+ * Order record from the webhook, or straight from Stripe if the webhook missed it
+ */
+const findOrder = async (stripeSessionId: string): Promise<Order | null> => {
+  const existing = await getOrderStore().get(stripeSessionId);
+  if (existing) return existing;
+
+  const stripe = getStripe();
+  if (!stripe) return null;
+
+  try {
+    const session = await stripe.checkout.sessions.retrieve(stripeSessionId);
+    if (!isSessionPaid(session)) return null;
+    await grantCreditsForSession(session);
+    return await recordOrder(session, 'paid');
+  } catch {
+    return null;
+  }
+};
+
+async function handler(req: VercelRequest, res: VercelResponse, body: RecoverPackBody) {
+  // Check AI provider configuration
+  const providers = getAiProviders();
+  if (!providers) {
+    return res.status(500).json({ error: 'AI service not configured' });
+  }
+
+  try {
+    const { email, sessionId, token } = body;
+
+    let order: Order | null = null;
+
+    if (token) {
+      const stripeSessionId = verifyRecoveryToken(token);
+      if (!stripeSessionId) {
+        return res.status(401).json({ error: 'This recovery link is invalid or has expired' });
+      }
+      order = await findOrder(stripeSessionId);
+      if (!order) {
+        return res.status(404).json({ error: NOT_FOUND });
+      }
+    } else {
+      if (!email || !sessionId) {
+        return sendValidationError(res, new ValidationError('missing_field', email ? 'sessionId' : 'email', 'Email and order reference are required'));
+      }
+      order = await findOrder(sessionId.trim());
+      if (!order || order.email?.toLowerCase() !== email.toLowerCase()) {
+        return res.status(404).json({ error: NOT_FOUND });
+      }
+    }
+
+    if (order.status === 'refunded') {
+      return res.status(402).json({ error: 'This order was refunded' });
+    }
+    if (order.status !== 'paid') {
+      return res.status(402).json({ error: 'This order was never completed' });
+    }
+
+    if (order.kind === 'credits') {
+      const creditToken = order.email ? createCreditToken(order.email) : null;
+      if (!creditToken) {
+        logger.error('Credit token not issued for recovery', { stripeSessionId: order.stripeSessionId, hasEmail: !!order.email });
+        return res.status(500).json({ error: 'Credits are not available right now' });
+      }
+      const { job, balance } = await startCreditFulfilment(creditToken, order.artSessionId, providers);
+
+      return res.status(200).json({
+        success: true,
+        jobId: job.id,
+        artSessionId: order.artSessionId,
+        job: toJobStatus(job, false),
+        recoveryToken: createRecoveryToken(order.stripeSessionId),
+        creditToken,
+        creditBalance: balance
+      });
+    }
+
+    const { job } = await startFulfilment(order.stripeSessionId, order.artSessionId, providers);
+
+    return res.status(200).json({
+      success: true,
+      jobId: job.id,
+      artSessionId: order.artSessionId,
+      job: toJobStatus(job, false),
+      recoveryToken: createRecoveryToken(order.stripeSessionId)
+    });
+
+  } catch (error: any) {
+    if (error instanceof EntitlementError || error instanceof CreditError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Recovery failed', { error });
+    return res.status(500).json({ error: 'Recovery failed' });
+  }
+}
+
+export default withApi({ methods: ['POST'], validate: recoverPackBody }, handler);
@@ -0,0 +1,64 @@
+/**
+ * Serverless API: Refine Art
+ *
+ * POST - Apply one small free-text edit ("remove the bike rack", "make the
+ *        sun bigger") to the current phone preview. Takes the preview, the
+ *        source photo and the instruction; returns the edited preview at the
+ *        exact phone size. The client keeps the revision history for undo.
+ * The instruction is sanitised and wrapped in the refinement prompt
+ * server-side - the prompt is never exposed to client.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { buildRefinementPrompt, sanitizeRefinementInstruction } from './templates.js';
+import { getAiProviders, ProviderError } from './_lib/providers/index.js';
+import { generateForFormat } from './_lib/imageOutput.js';
+import { refineArtBody, type RefineArtBody } from './_lib/requestSchemas.js';
+import { ValidationError, sendValidationError } from './_lib/validation.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+// maxDuration is 180s (vercel.json) - leave time to respond
+const TIME_BUDGET_MS = 170 * 1000;
+
+async function handler(req: VercelRequest, res: VercelResponse, body: RefineArtBody) {
+  // Check AI provider configuration
+  const providers = getAiProviders();
+  if (!providers) {
+    return res.status(500).json({ error: 'AI service not configured' });
+  }
+
+  if (!sanitizeRefinementInstruction(body.instruction)) {
+    return sendValidationError(res, new ValidationError('invalid_value', 'instruction', 'instruction must describe a change'));
+  }
+
+  try {
+    const refined = await generateForFormat(providers.image, {
+      kind: 'refine',
+      prompt: buildRefinementPrompt(body.instruction),
+      images: [
+        { mimeType: body.previewMimeType, data: body.previewArt },
+        { mimeType: "image/jpeg", data: body.image }
+      ],
+      deadline: Date.now() + TIME_BUDGET_MS
+    }, 'phone');
+
+    return res.status(200).json({
+      success: true,
+      data: refined.data,
+      mimeType: refined.mimeType,
+      width: refined.width,
+      height: refined.height
+    });
+
+  } catch (error: any) {
+    if (error instanceof ProviderError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Refinement failed', { error });
+    return res.status(500).json({ error: 'Refinement failed' });
+  }
+}
+
+// Every edit costs a Gemini request - shares the preview limit
+export default withApi({ methods: ['POST'], validate: refineArtBody, rateLimit: 'preview' }, handler);
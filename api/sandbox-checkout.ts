@@ -0,0 +1,90 @@
+/**
+ * Serverless API: Sandbox Checkout
+ *
+ * Fake Stripe hosted checkout page - only exists in sandbox mode.
+ *
+ * GET  ?session=<id>                  - Checkout page with Pay / Cancel buttons
+ * POST ?session=<id> (form: action, email)
+ *      - Pays or cancels the session, records it as the webhook would, then
+ *        redirects to the success/cancel URL like Stripe does
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  completeSandboxSession,
+  expireSandboxSession,
+  getSandboxSession,
+  isSandbox
+} from './_lib/sandbox.js';
+import { recordOrder } from './_lib/orders.js';
+import { grantCreditsForSession } from './_lib/credits.js';
+import { recordCheckoutRedemption } from './_lib/promotions.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderPage = (sessionId: string, description: string, amount: string): string => `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Sandbox Checkout</title>
+  </head>
+  <body style="margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: #09090b; color: #fff; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;">
+    <form method="POST" action="/api/sandbox-checkout?session=${encodeURIComponent(sessionId)}" style="width: 100%; max-width: 360px; padding: 32px; background: #18181b; border: 1px solid #27272a; border-radius: 28px;">
+      <p style="margin: 0 0 8px; color: #f59e0b; font-size: 11px; font-weight: 800; letter-spacing: 0.2em; text-transform: uppercase;">Sandbox Checkout</p>
+      <h1 style="margin: 0 0 4px; font-size: 22px;">${escapeHtml(description)}</h1>
+      <p style="margin: 0 0 24px; font-size: 28px; font-weight: 900;">${escapeHtml(amount)}</p>
+      <label style="display: block; margin-bottom: 6px; color: #a1a1aa; font-size: 12px;">Email</label>
+      <input name="email" type="email" value="sandbox@example.com" required style="box-sizing: border-box; width: 100%; height: 44px; padding: 0 14px; margin-bottom: 20px; background: #09090b; border: 1px solid #3f3f46; border-radius: 12px; color: #fff; font-size: 14px;" />
+      <button name="action" value="pay" style="width: 100%; height: 52px; margin-bottom: 10px; background: #fff; color: #000; border: 0; border-radius: 16px; font-size: 16px; font-weight: 800; cursor: pointer;">Pay (no real charge)</button>
+      <button name="action" value="cancel" formnovalidate style="width: 100%; height: 44px; background: transparent; color: #71717a; border: 0; font-size: 13px; font-weight: 700; cursor: pointer;">Cancel</button>
+    </form>
+  </body>
+</html>`.trim();
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!isSandbox()) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  try {
+    const sessionId = String(req.query.session || '');
+    const session = sessionId ? await getSandboxSession(sessionId) : null;
+    if (!session || session.status !== 'open') {
+      return res.status(404).json({ error: 'Checkout session not found or already completed' });
+    }
+
+    if (req.method === 'GET') {
+      const description = session.metadata?.kind === 'credits'
+        ? `${session.metadata.credits} vehicle credits`
+        : session.metadata?.vehicleInfo || 'GarageCanvas pack';
+      const amount = `$${((session.amount_total || 0) / 100).toFixed(2)}`;
+
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      return res.status(200).send(renderPage(session.id, description, amount));
+    }
+
+    // POST - what Stripe + the webhook would do
+    if (req.body?.action === 'cancel') {
+      const expired = await expireSandboxSession(session);
+      await recordOrder(expired, 'expired');
+      return res.redirect(303, expired.cancel_url!);
+    }
+
+    const paid = await completeSandboxSession(session, String(req.body?.email || 'sandbox@example.com'));
+    await recordOrder(paid, 'paid');
+    await grantCreditsForSession(paid);
+    await recordCheckoutRedemption(paid);
+
+    return res.redirect(303, paid.success_url!.replace('{CHECKOUT_SESSION_ID}', paid.id));
+  } catch (error: any) {
+    logger.error('Sandbox checkout failed', { error });
+    return res.status(500).json({ error: 'Sandbox checkout failed' });
+  }
+}
+
+export default withApi({ methods: ['GET', 'POST'] }, handler);
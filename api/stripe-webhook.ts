@@ -0,0 +1,109 @@
+/**
+ * Serverless API: Stripe Webhook
+ *
+ * Receives Stripe events and keeps an order record for every checkout,
+ * independent of the customer's browser returning to the app.
+ *
+ * Handled events:
+ * - checkout.session.completed  → order paid (+ credits granted for bundles)
+ * - checkout.session.expired    → order expired
+ * - charge.refunded             → order refunded, unspent bundle credits revoked
+ */
+
+import type Stripe from 'stripe';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStripe, isSessionPaid } from './_lib/stripe.js';
+import { recordOrder } from './_lib/orders.js';
+import { grantCreditsForSession, revokeCreditsForSession } from './_lib/credits.js';
+import { recordCheckoutRedemption } from './_lib/promotions.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+// Signature verification needs the exact raw payload
+export const config = {
+  api: { bodyParser: false },
+};
+
+const readRawBody = async (req: VercelRequest): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  const stripe = getStripe();
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!stripe || !webhookSecret) {
+    logger.error('Webhook not configured', { hasStripe: !!stripe, hasWebhookSecret: !!webhookSecret });
+    return res.status(500).json({ error: 'Webhook not configured' });
+  }
+
+  let event: Stripe.Event;
+  try {
+    const rawBody = await readRawBody(req);
+    const signature = req.headers['stripe-signature'];
+    event = stripe.webhooks.constructEvent(rawBody, signature as string, webhookSecret);
+  } catch (error: any) {
+    logger.error('Webhook signature verification failed', { error: error.message });
+    return res.status(400).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    switch (event.type) {
+      case 'checkout.session.completed': {
+        const session = event.data.object;
+        // Async payment methods complete later with payment_status 'unpaid'
+        if (isSessionPaid(session)) {
+          const order = await recordOrder(session, 'paid');
+          // A refund can arrive before the completion event
+          if (order.status === 'paid') {
+            await grantCreditsForSession(session);
+          }
+          await recordCheckoutRedemption(session);
+        }
+        break;
+      }
+
+      case 'checkout.session.expired': {
+        await recordOrder(event.data.object, 'expired');
+        break;
+      }
+
+      case 'charge.refunded': {
+        const charge = event.data.object;
+        // Partial refunds keep the order paid
+        if (!charge.refunded) break;
+
+        const paymentIntentId = typeof charge.payment_intent === 'string'
+          ? charge.payment_intent
+          : charge.payment_intent?.id;
+        if (!paymentIntentId) break;
+
+        // Refunds reference the PaymentIntent - find the checkout session it belongs to
+        const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+        const session = sessions.data[0];
+        if (session) {
+          await recordOrder(session, 'refunded');
+          // Credit bundles: take back what hasn't been spent
+          await revokeCreditsForSession(session);
+        }
+        break;
+      }
+
+      default:
+        // Unhandled event types are acknowledged so Stripe stops retrying
+        break;
+    }
+
+    return res.status(200).json({ received: true });
+  } catch (error: any) {
+    logger.error('Webhook handling failed', { eventId: event.id, eventType: event.type, error });
+    // Non-2xx makes Stripe retry the delivery
+    return res.status(500).json({ error: 'Webhook handling failed' });
+  }
+}
+
+// Server-to-server only - no CORS
+export default withApi({ methods: ['POST'], cors: false }, handler);
@@ -0,0 +1,43 @@
+/**
+ * Serverless API: AI Usage
+ *
+ * GET ?day=YYYY-MM-DD - Staff only (X-Staff-Token header). Estimated AI cost
+ *                       for one UTC day (default: today), broken down by call
+ *                       type (analysis / preview / render / outpaint /
+ *                       refine / audit) and model.
+ *
+ * `complete` is false when usage isn't kept in shared storage (Vercel without
+ * Redis) - the summary then covers only the instance that answered, and the
+ * "AI call" log lines are the full record.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getRequestStaff } from './_lib/staffTokens.js';
+import { summarizeUsage } from './_lib/usage.js';
+import { getStorageStatus } from './_lib/recordStore.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!getRequestStaff(req)) {
+    return res.status(401).json({ error: 'Staff token required' });
+  }
+
+  const day = typeof req.query.day === 'string' ? req.query.day : new Date().toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+    return res.status(400).json({ error: 'day must be YYYY-MM-DD' });
+  }
+
+  try {
+    return res.status(200).json({
+      success: true,
+      summary: await summarizeUsage(day),
+      complete: getStorageStatus().shared
+    });
+  } catch (error) {
+    logger.error('Usage summary failed', { error, day });
+    return res.status(500).json({ error: 'Usage summary failed' });
+  }
+}
+
+export default withApi({ methods: ['GET'] }, handler);
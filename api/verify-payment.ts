@@ -1,21 +1,15 @@
-import Stripe from 'stripe';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  if (req.method !== 'GET') {
-    res.setHeader('Allow', 'GET');
-    return res.status(405).json({ error: 'Method not allowed' });
+import { getStripe, isSessionPaid } from './_lib/stripe.js';
+import { createRecoveryToken } from './_lib/recovery.js';
+import { createCreditToken, grantCreditsForSession } from './_lib/credits.js';
+import { recordCheckoutRedemption } from './_lib/promotions.js';
+import { logger } from './_lib/logger.js';
+import { withApi } from './_lib/middleware.js';
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  const stripe = getStripe();
+  if (!stripe) {
+    return res.status(500).json({ error: 'Payment service not configured' });
   }
 
   try {
@@ -28,8 +22,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Retrieve the checkout session from Stripe
     const session = await stripe.checkout.sessions.retrieve(session_id);
 
-    // Check if payment was successful
-    const isPaid = session.payment_status === 'paid';
+    // Check if payment was successful (or fully discounted)
+    const isPaid = isSessionPaid(session);
+
+    // Credit bundle: grant now (idempotent with the webhook) and hand out the account token
+    const creditAccount = await grantCreditsForSession(session);
+    await recordCheckoutRedemption(session);
 
     return res.status(200).json({
       success: isPaid,
@@ -37,12 +35,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       paymentStatus: session.payment_status,
       customerEmail: session.customer_details?.email,
       metadata: session.metadata,
+      // Lets the customer recover the pack later if fulfilment fails in this tab
+      recoveryToken: isPaid ? createRecoveryToken(session.id) : null,
+      ...(creditAccount ? {
+        creditToken: createCreditToken(creditAccount.email),
+        creditBalance: creditAccount.balance,
+      } : {}),
     });
   } catch (error: any) {
-    console.error('Stripe verification error:', error);
+    logger.error('Stripe verification error', { error });
     return res.status(500).json({ 
       success: false,
-      error: error.message || 'Failed to verify payment' 
+      error: 'Failed to verify payment' 
     });
   }
 }
+
+export default withApi({ methods: ['GET'] }, handler);
@@ -0,0 +1,38 @@
+/**
+ * API Errors
+ *
+ * API routes answer with `{ error: "message" }`, or for rejected request
+ * bodies and rate limits `{ error: { code, message, field | retryAfter } }`.
+ * Either way the thrown error's message is something the UI can show as-is.
+ */
+
+export interface ApiErrorDetail {
+  code: string;           // missing_field | invalid_type | invalid_value | too_large | rate_limited
+  message: string;
+  field?: string;         // e.g. "analysis.category"
+  retryAfter?: number;    // Seconds until a rate-limited request may be retried
+}
+
+export class ApiError extends Error {
+  constructor(message: string, public code?: string, public field?: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Error to throw for a failed API response body
+ */
+export const toApiError = (result: { error?: string | ApiErrorDetail } | null | undefined, fallback: string): ApiError => {
+  const error = result?.error;
+  if (typeof error === 'object') {
+    return new ApiError(error.message || fallback, error.code, error.field, error.retryAfter);
+  }
+  return new ApiError(error || fallback);
+};
+
+/**
+ * Seconds to wait when the error is a rate limit, otherwise null
+ */
+export const getRetryAfter = (error: unknown): number | null =>
+  error instanceof ApiError && error.code === 'rate_limited' ? error.retryAfter ?? 60 : null;
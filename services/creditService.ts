@@ -0,0 +1,69 @@
+/**
+ * Credit Service
+ *
+ * Credit packs (multi-vehicle bundles) and the customer's balance.
+ * The signed credit token from verify-payment is kept in localStorage;
+ * the balance itself always comes from the server.
+ */
+
+import { toApiError } from './apiError';
+
+const STORAGE_KEY = 'gc_credit_token';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreditPackOffer {
+  id: string;
+  credits: number;
+  label: string;
+  price: { amount: number | null; currency: string } | null;
+}
+
+export interface CreditsInfo {
+  packs: CreditPackOffer[];
+  balance: number | null;
+}
+
+// ============================================================================
+// TOKEN STORAGE
+// ============================================================================
+
+export const getStoredCreditToken = (): string | null => localStorage.getItem(STORAGE_KEY);
+
+export const storeCreditToken = (token: string): void => {
+  localStorage.setItem(STORAGE_KEY, token);
+};
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Available credit packs, plus the balance when a credit token is known
+ */
+export const getCredits = async (creditToken?: string | null): Promise<CreditsInfo> => {
+  const response = await fetch('/api/credits', {
+    headers: creditToken ? { 'X-Credit-Token': creditToken } : {}
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || result.error) {
+    throw toApiError(result, 'Failed to load credits');
+  }
+
+  return { packs: result.packs, balance: result.balance };
+};
+
+/**
+ * Format a Stripe amount (smallest currency unit) for display
+ */
+export const formatPrice = (price: CreditPackOffer['price']): string => {
+  if (!price || price.amount === null) return '';
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: price.currency.toUpperCase(),
+  }).format(price.amount / 100);
+};
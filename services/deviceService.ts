@@ -0,0 +1,20 @@
+/**
+ * Device Service
+ *
+ * Anonymous device ID sent to the rate-limited routes (X-Device-Id header)
+ * so the server can rate limit per device as well as per IP. Random, kept in
+ * localStorage, never tied to an account.
+ */
+
+const STORAGE_KEY = 'gc_device_id';
+
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+export const deviceHeaders = (): Record<string, string> => ({ 'X-Device-Id': getDeviceId() });
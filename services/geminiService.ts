@@ -8,18 +8,22 @@
  * 
  * ⚠️ IMPORTANT: Run with `vercel dev` for local development.
  * The `npm run dev` command will NOT work as it doesn't support serverless functions.
+ * Set SANDBOX_MODE=1 to run every step without Gemini or Stripe keys.
  */
 
-import { VehicleAnalysis, BackgroundTheme, FidelityMode, PositionMode, StanceStyle } from "../types";
+import { VehicleAnalysis, BackgroundTheme, FidelityMode, PositionMode, StanceStyle, FidelityIssue, ArtFormat, ProductTierId } from "../types";
+import { toApiError } from "./apiError";
+import { deviceHeaders } from "./deviceService";
 
 // ============================================================================
 // FILE UTILITIES
 // ============================================================================
 
-// Vercel Serverless has a 4.5MB request body limit
-// We need to keep images well under this limit
+// Vercel Serverless has a 4.5MB request body limit, and the photo shares it
+// with the preview on art session and refine requests - the API takes photos
+// up to 1MB decoded (see api/_lib/requestSchemas.ts)
 const MAX_IMAGE_DIMENSION = 1400; // Reduced from 2048
-const MAX_PAYLOAD_SIZE_BYTES = 3 * 1024 * 1024; // 3MB max to stay safe under 4.5MB limit
+const MAX_PAYLOAD_SIZE_BYTES = 1.25 * 1024 * 1024; // Base64 length - ~0.94MB decoded
 
 /**
  * Compress and resize image to fit within Vercel's payload limits
@@ -145,21 +149,30 @@ export const fileToGenerativePart = async (file: File): Promise<string> => {
 export const analyzeVehicle = async (base64Image: string): Promise<VehicleAnalysis> => {
   const response = await fetch('/api/analyze-vehicle', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...deviceHeaders() },
     body: JSON.stringify({ image: base64Image })
   });
 
   const result = await response.json();
 
   if (!response.ok || result.error) {
-    throw new Error(result.error || 'Analysis failed');
+    throw toApiError(result, 'Analysis failed');
   }
 
   return result.data;
 };
 
+export interface PreviewCandidate {
+  data: string;                 // Base64
+  mimeType: string;
+  width: number;
+  height: number;
+  fidelityIssues?: FidelityIssue[];   // Details the quality check says don't match the photo
+}
+
 /**
- * Generate art preview (phone format)
+ * Generate art previews (phone format) - `candidates` to choose from
+ * Returns at least one candidate; fewer than asked when some renders failed
  * Prompt is SECRET - built on server
  */
 export const generateArt = async (
@@ -171,11 +184,12 @@ export const generateArt = async (
   position: PositionMode,
   stance: StanceStyle,
   selectedMods: string[],
-  customCity?: string
-): Promise<string> => {
+  customCity?: string,
+  candidates = 1
+): Promise<PreviewCandidate[]> => {
   const response = await fetch('/api/generate-art', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...deviceHeaders() },
     body: JSON.stringify({
       image: base64Image,
       analysis,
@@ -185,112 +199,331 @@ export const generateArt = async (
       position,
       stance,
       selectedMods,
-      customCity
+      customCity,
+      candidates
     })
   });
 
   const result = await response.json();
 
   if (!response.ok || result.error) {
-    throw new Error(result.error || 'Generation failed');
+    throw toApiError(result, 'Generation failed');
   }
 
-  // Store mimeType for later download
-  if (result.mimeType) {
-    (window as any).__lastArtMimeType = result.mimeType;
+  // Store mimeType for later download - every candidate has the same one
+  if (result.candidates[0]?.mimeType) {
+    (window as any).__lastArtMimeType = result.candidates[0].mimeType;
   }
 
-  return result.data;
+  return result.candidates;
+};
+
+/**
+ * Apply a small free-text edit to the current preview
+ * Returns the edited preview - the caller keeps the previous one for undo
+ */
+export const refineArt = async (
+  base64Image: string,
+  previewArt: string,
+  instruction: string
+): Promise<PreviewCandidate> => {
+  const response = await fetch('/api/refine-art', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...deviceHeaders() },
+    body: JSON.stringify({
+      image: base64Image,
+      previewArt,
+      previewMimeType: (window as any).__lastArtMimeType,
+      instruction
+    })
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || result.error) {
+    throw toApiError(result, 'Edit failed');
+  }
+
+  return { data: result.data, mimeType: result.mimeType, width: result.width, height: result.height };
 };
 
 // ============================================================================
 // GENERATED ART SET
 // ============================================================================
 
+// How the other formats are derived from the phone preview: a fresh
+// generation per format, or only the background extended around the preview
+export type RenderMode = 'regenerate' | 'outpaint';
+
 export interface GeneratedArtSet {
-  phone: string;   // 9:16 vertical
-  desktop: string; // 16:9 horizontal
-  print: string;   // 4:3 print
+  tierId: ProductTierId;
+  formats: ArtFormat[];                         // Unlocked formats, in display order
+  downloads: Partial<Record<ArtFormat, string>>;   // Download URL per format - fetched one at a time
+  dimensions?: Partial<Record<ArtFormat, { width: number; height: number }>>;   // Final pixel size per format
+  fidelityIssues?: Partial<Record<ArtFormat, FidelityIssue[]>>;   // Formats the quality check flagged
+  mimeTypes?: Partial<Record<ArtFormat, string>>;   // Per format - falls back to mimeType
   mimeType?: string; // image/png or image/jpeg
 }
 
 /**
- * Generate remaining formats (desktop, print) based on existing preview
- * Uses preview as style reference for consistency
+ * What to unlock and the proof of purchase for it - the paid Stripe
+ * Checkout session whose metadata carries the art session ID, a credit
+ * account token (spends one credit), or a staff token
+ */
+export interface UnlockRequest {
+  artSessionId: string;
+  sessionId?: string;
+  creditToken?: string;
+  promoCode?: string;           // Free-pack campaign code
+  staffToken?: string;
+  tierId?: ProductTierId;       // Staff only - paid tiers come from checkout
+  renderMode?: RenderMode;      // Default: regenerate
+}
+
+// ============================================================================
+// ART SESSIONS - server-side handoff through checkout
+// ============================================================================
+
+export interface ArtSessionInput {
+  image: string;
+  previewArt: string;
+  previewMimeType?: string;
+  analysis: VehicleAnalysis;
+  style: string;
+  background: BackgroundTheme;
+  fidelity: FidelityMode;
+  position: PositionMode;
+  stance: StanceStyle;
+  selectedMods: string[];
+  customCity?: string;
+}
+
+export interface ArtSession {
+  id: string;
+  sourceImage: string;
+  previewArt: string;
+  previewMimeType: string;
+  params: {
+    analysis: VehicleAnalysis;
+    style: string;
+    background: BackgroundTheme;
+    fidelity: FidelityMode;
+    position: PositionMode;
+    stance: StanceStyle;
+    selectedMods: string[];
+    customCity?: string;
+  };
+}
+
+/**
+ * Store photo, params and preview server-side before checkout
+ * Returns the art session ID to send through Stripe metadata
+ */
+export const createArtSession = async (input: ArtSessionInput): Promise<string> => {
+  const response = await fetch('/api/art-sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || result.error) {
+    throw toApiError(result, 'Failed to save artwork');
+  }
+
+  return result.id;
+};
+
+/**
+ * Load a stored art session (e.g. after returning from checkout)
+ */
+export const getArtSession = async (artSessionId: string): Promise<ArtSession> => {
+  const response = await fetch(`/api/art-sessions?id=${encodeURIComponent(artSessionId)}`);
+
+  const result = await response.json();
+
+  if (!response.ok || result.error) {
+    throw toApiError(result, 'Artwork not found');
+  }
+
+  return result.data;
+};
+
+// ============================================================================
+// GENERATION JOBS
+// ============================================================================
+
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface GenerationJob {
+  id: string;
+  tierId: ProductTierId;
+  renderMode: RenderMode;
+  status: GenerationJobStatus;
+  formats: Partial<Record<ArtFormat, 'queued' | 'rendering' | 'done' | 'failed'>>;
+  progress: string;
+  error?: string;
+  result?: GeneratedArtSet;
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// The server fails jobs that outlive their function (~5 min) - this only
+// stops the wait when the status never arrives
+const JOB_FOLLOW_TIMEOUT_MS = 6 * 60 * 1000;
+const JOB_TIMEOUT_MESSAGE = "Generation is taking too long. Please try again.";
+
+// Turn job progress ("rendering print-square") into a status line for the UI
+const describeJob = (job: GenerationJob): string => {
+  const formats = Object.keys(job.formats);
+  const rendering = job.progress.startsWith('rendering ') ? job.progress.slice('rendering '.length) : null;
+
+  if (rendering) {
+    const label = rendering.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+    return `Rendering ${label} (${formats.indexOf(rendering) + 1}/${formats.length})...`;
+  }
+  switch (job.progress) {
+    case 'queued': return "Queued - starting shortly...";
+    case 'done': return "Finishing up...";
+    default: return "Creating your formats...";
+  }
+};
+
+/**
+ * Fetch the current status of a generation job
+ */
+export const getGenerationJob = async (jobId: string): Promise<GenerationJob> => {
+  const response = await fetch(`/api/generation-status?id=${encodeURIComponent(jobId)}`);
+
+  const result = await response.json();
+
+  if (!response.ok || result.error) {
+    throw toApiError(result, 'Failed to check generation status');
+  }
+
+  return result.data;
+};
+
+/**
+ * Follow a generation job until it finishes
+ * Uses the SSE stream when available, falls back to polling
+ * Rejects after JOB_FOLLOW_TIMEOUT_MS
+ */
+export const followGenerationJob = (
+  jobId: string,
+  onProgress?: (step: string) => void
+): Promise<GeneratedArtSet> => {
+  const deadline = Date.now() + JOB_FOLLOW_TIMEOUT_MS;
+
+  const finish = async (): Promise<GeneratedArtSet> => {
+    const job = await getGenerationJob(jobId);
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Generation failed');
+    }
+    return job.result!;
+  };
+
+  const poll = async (): Promise<GeneratedArtSet> => {
+    while (Date.now() < deadline) {
+      const job = await getGenerationJob(jobId);
+      onProgress?.(describeJob(job));
+      if (job.status === 'done' || job.status === 'failed') {
+        return finish();
+      }
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+    throw new Error(JOB_TIMEOUT_MESSAGE);
+  };
+
+  if (typeof EventSource === 'undefined') {
+    return poll();
+  }
+
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/generation-status?id=${encodeURIComponent(jobId)}`);
+    let settled = false;
+
+    const settle = (result: Promise<GeneratedArtSet>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      source.close();
+      result.then(resolve, reject);
+    };
+    const timer = setTimeout(() => settle(Promise.reject(new Error(JOB_TIMEOUT_MESSAGE))), JOB_FOLLOW_TIMEOUT_MS);
+
+    source.addEventListener('progress', (e) => {
+      onProgress?.(describeJob(JSON.parse((e as MessageEvent).data)));
+    });
+    source.addEventListener('done', () => settle(finish()));
+    source.addEventListener('failed', () => settle(finish()));
+
+    // The stream closes every ~55s and EventSource reconnects by itself;
+    // only give up on SSE if it can't reconnect at all
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        settle(poll());
+      }
+    };
+  });
+};
+
+/**
+ * Generate the remaining formats of the unlocked tier (desktop, print, ...)
+ * Starts a server-side job and follows its progress
+ * The server loads photo, params and preview from the art session
  * Prompt is SECRET - built on server
  */
 export const generateRemainingFormats = async (
-  base64Image: string,
-  existingPhoneArt: string,
-  analysis: VehicleAnalysis,
-  style: string,
-  background: BackgroundTheme,
-  fidelity: FidelityMode,
-  position: PositionMode,
-  stance: StanceStyle,
-  selectedMods: string[],
-  onProgress?: (step: string) => void,
-  customCity?: string
+  unlock: UnlockRequest,
+  onProgress?: (step: string) => void
 ): Promise<GeneratedArtSet> => {
-  onProgress?.("Creating Desktop and Print versions...");
+  onProgress?.("Creating your formats...");
   
   const response = await fetch('/api/generate-remaining', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: {
+      'Content-Type': 'application/json',
+      ...(unlock.staffToken ? { 'X-Staff-Token': unlock.staffToken } : {})
+    },
     body: JSON.stringify({
-      image: base64Image,
-      previewArt: existingPhoneArt,
-      analysis,
-      style,
-      background,
-      fidelity,
-      position,
-      stance,
-      selectedMods,
-      customCity
+      sessionId: unlock.sessionId,
+      artSessionId: unlock.artSessionId,
+      creditToken: unlock.creditToken,
+      promoCode: unlock.promoCode,
+      tierId: unlock.tierId,
+      renderMode: unlock.renderMode
     })
   });
 
   const result = await response.json();
 
   if (!response.ok || result.error) {
-    throw new Error(result.error || 'Generation failed');
+    throw toApiError(result, 'Generation failed');
   }
 
+  const set = await followGenerationJob(result.jobId, onProgress);
+
   // Include mimeType in the returned data
   return {
-    ...result.data,
-    mimeType: result.mimeType || 'image/png'
+    ...set,
+    mimeType: set.mimeType || 'image/png'
   };
 };
 
 /**
- * Legacy function for generating all 3 formats at once
- * (Used as fallback when no preview exists)
+ * Fetch one format of an unlocked pack - each is a separate file of a few MB
  */
-export const generateArtSet = async (
-  base64Image: string,
-  analysis: VehicleAnalysis,
-  style: string,
-  background: BackgroundTheme,
-  fidelity: FidelityMode,
-  position: PositionMode,
-  stance: StanceStyle,
-  selectedMods: string[],
-  onProgress?: (step: string) => void,
-  customCity?: string
-): Promise<GeneratedArtSet> => {
-  // Step 1: Generate phone preview
-  onProgress?.("Creating Phone wallpaper (1/3)...");
-  const phoneArt = await generateArt(
-    base64Image, analysis, style, background, fidelity, position, stance, selectedMods, customCity
-  );
-  
-  // Step 2: Generate remaining formats using phone as reference
-  onProgress?.("Creating Desktop and Print (2/3, 3/3)...");
-  const fullSet = await generateRemainingFormats(
-    base64Image, phoneArt, analysis, style, background, fidelity, position, stance, selectedMods, onProgress, customCity
-  );
-  
-  return fullSet;
+export const fetchArtFile = async (set: GeneratedArtSet, format: ArtFormat): Promise<Blob> => {
+  const url = set.downloads[format];
+  if (!url) {
+    throw new Error(`This pack has no ${format} file`);
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Download failed');
+  }
+  return response.blob();
 };
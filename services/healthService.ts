@@ -0,0 +1,41 @@
+/**
+ * Health Service
+ *
+ * Configuration status from /api/health. The app checks it on load and
+ * shows a maintenance banner (and blocks uploads) when the server says
+ * customers can't complete a purchase.
+ */
+
+import { toApiError } from './apiError';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HealthStatus {
+  ready: boolean;
+  sandbox: boolean;
+  ai: { provider: string; configured: boolean };
+  payments: { configured: boolean };
+  storage: { backend: 'redis' | 'file'; shared: boolean };
+  mail: { transport: 'smtp' | 'file'; configured: boolean };
+}
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Current configuration status - a 503 is still a valid (not ready) answer
+ */
+export const getHealth = async (): Promise<HealthStatus> => {
+  const response = await fetch('/api/health');
+
+  const result = await response.json();
+
+  if (typeof result.ready !== 'boolean') {
+    throw toApiError(result, 'Failed to check service status');
+  }
+
+  return result;
+};
@@ -0,0 +1,59 @@
+/**
+ * Product Service
+ *
+ * The product catalog from /api/products - which tiers can be bought, what
+ * they cost and which formats each one unlocks. The server owns the catalog;
+ * the paywall and COMPLETE step only display it.
+ */
+
+import { toApiError } from './apiError';
+import type { ArtFormat, ProductTierId } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ArtFormatInfo {
+  id: ArtFormat;
+  label: string;
+  ratio: string;
+  resolution: string;
+  width: number;
+  height: number;
+}
+
+export interface ProductTierOffer {
+  id: ProductTierId;
+  label: string;
+  shortLabel: string;
+  description: string;
+  formats: ArtFormat[];
+  price: { amount: number | null; currency: string } | null;
+}
+
+export interface ProductCatalog {
+  tiers: ProductTierOffer[];
+  formats: Record<ArtFormat, ArtFormatInfo>;
+}
+
+// Standard pack - what checkouts default to and what credits unlock
+export const DEFAULT_TIER_ID: ProductTierId = 'pack';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Purchasable tiers with prices, plus display info for every format
+ */
+export const getProducts = async (): Promise<ProductCatalog> => {
+  const response = await fetch('/api/products');
+
+  const result = await response.json();
+
+  if (!response.ok || result.error) {
+    throw toApiError(result, 'Failed to load products');
+  }
+
+  return { tiers: result.tiers, formats: result.formats };
+};
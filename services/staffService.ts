@@ -0,0 +1,46 @@
+/**
+ * Staff Service
+ *
+ * Staff tokens are issued by /api/dev-token and passed to the app once via
+ * ?dev_token=<token>. They are kept in sessionStorage for the tab and checked
+ * against the server before any staff controls are shown.
+ */
+
+const STORAGE_KEY = 'gc_staff_token';
+
+/**
+ * Pick up a token from the URL (and remove it from the address bar),
+ * falling back to the one stored for this tab
+ */
+export const readStaffToken = (): string | null => {
+  const url = new URL(window.location.href);
+  const fromUrl = url.searchParams.get('dev_token');
+
+  if (fromUrl) {
+    sessionStorage.setItem(STORAGE_KEY, fromUrl);
+    url.searchParams.delete('dev_token');
+    window.history.replaceState({}, '', url.pathname + url.search);
+    return fromUrl;
+  }
+
+  return sessionStorage.getItem(STORAGE_KEY);
+};
+
+/**
+ * Ask the server whether the token is valid - clears it if not
+ */
+export const validateStaffToken = async (token: string): Promise<boolean> => {
+  try {
+    const response = await fetch('/api/dev-token', {
+      headers: { 'X-Staff-Token': token }
+    });
+    const result = await response.json();
+
+    if (!result.valid) {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+    return !!result.valid;
+  } catch {
+    return false;
+  }
+};
@@ -4,6 +4,9 @@
  * Integrates with Vercel API Routes for secure payment processing.
  */
 
+import { toApiError } from './apiError';
+import { deviceHeaders } from './deviceService';
+
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
@@ -29,7 +32,31 @@ export interface PaymentVerification {
   metadata?: {
     artSessionId?: string;
     vehicleInfo?: string;
+    kind?: 'credits';
+    tierId?: string;
   };
+  recoveryToken?: string | null;
+  creditToken?: string | null;   // Credit bundle purchases only
+  creditBalance?: number;
+}
+
+export interface PromoCheck {
+  code: string;
+  freePack: boolean;             // Unlocks without checkout
+  description: string;           // e.g. "50% off"
+}
+
+export type RecoveryRequest =
+  | { email: string; sessionId: string }
+  | { token: string };
+
+export interface RecoveryResponse {
+  success: boolean;
+  jobId: string;
+  artSessionId: string;
+  recoveryToken?: string | null;
+  creditToken?: string;          // Credit bundle orders only - re-issued account token
+  creditBalance?: number;
 }
 
 // ============================================================================
@@ -41,7 +68,10 @@ export interface PaymentVerification {
  */
 export const createCheckoutSession = async (
   artSessionId: string,
-  vehicleInfo?: string
+  vehicleInfo?: string,
+  creditPackId?: string,
+  promoCode?: string,
+  tierId?: string
 ): Promise<CheckoutResponse> => {
   const response = await fetch(`${API_BASE}/api/create-checkout-session`, {
     method: 'POST',
@@ -51,12 +81,15 @@ export const createCheckoutSession = async (
     body: JSON.stringify({
       artSessionId,
       vehicleInfo,
+      creditPackId,
+      promoCode,
+      tierId,
     }),
   });
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Failed to create checkout session');
+    throw toApiError(error, 'Failed to create checkout session');
   }
 
   return response.json();
@@ -64,12 +97,16 @@ export const createCheckoutSession = async (
 
 /**
  * Redirect user to Stripe Checkout
+ * Pass a creditPackId to buy a credit bundle instead of a single pack
  */
 export const redirectToCheckout = async (
   artSessionId: string,
-  vehicleInfo?: string
+  vehicleInfo?: string,
+  creditPackId?: string,
+  promoCode?: string,
+  tierId?: string
 ): Promise<void> => {
-  const { url } = await createCheckoutSession(artSessionId, vehicleInfo);
+  const { url } = await createCheckoutSession(artSessionId, vehicleInfo, creditPackId, promoCode, tierId);
   window.location.href = url;
 };
 
@@ -81,12 +118,50 @@ export const verifyPayment = async (sessionId: string): Promise<PaymentVerificat
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Failed to verify payment');
+    throw toApiError(error, 'Failed to verify payment');
   }
 
   return response.json();
 };
 
+/**
+ * Check a promo or campaign code before checkout
+ */
+export const checkPromoCode = async (code: string): Promise<PromoCheck> => {
+  const response = await fetch(`${API_BASE}/api/promo-codes?code=${encodeURIComponent(code)}`, {
+    headers: deviceHeaders(),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || result.error) {
+    throw toApiError(result, 'Invalid code');
+  }
+
+  return result;
+};
+
+/**
+ * Recover a paid pack by order email + session ID, or by recovery link token
+ */
+export const recoverPack = async (request: RecoveryRequest): Promise<RecoveryResponse> => {
+  const response = await fetch(`${API_BASE}/api/recover-pack`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || result.error) {
+    throw toApiError(result, 'Recovery failed');
+  }
+
+  return result;
+};
+
 /**
  * Check URL for payment success/cancel parameters
  */
@@ -94,12 +169,14 @@ export const checkPaymentStatus = (): {
   sessionId: string | null; 
   cancelled: boolean;
   artSessionId: string | null;
+  recoveryToken: string | null;
 } => {
   const params = new URLSearchParams(window.location.search);
   return {
     sessionId: params.get('session_id'),
     cancelled: params.get('cancelled') === 'true',
     artSessionId: params.get('art'),
+    recoveryToken: params.get('recover'),
   };
 };
 
@@ -111,5 +188,6 @@ export const clearPaymentParams = (): void => {
   url.searchParams.delete('session_id');
   url.searchParams.delete('cancelled');
   url.searchParams.delete('art');
+  url.searchParams.delete('recover');
   window.history.replaceState({}, '', url.pathname);
 };
@@ -0,0 +1,284 @@
+/**
+ * Shared Schema
+ *
+ * Enums, vehicle analysis types, product IDs and the analysis field schema -
+ * imported by both the browser bundle and the serverless functions, so there
+ * is exactly one copy of each.
+ *
+ * ⚠️ Keep this file prompt-free: it ships to the browser. Field descriptions
+ * and instructions for the model belong in api/templates.ts.
+ */
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export enum ArtStyle {
+  POSTER = 'Poster Art',
+  STICKER = 'Sticker Badge',
+}
+
+// Expanded for ALL car types
+export enum BackgroundTheme {
+  // Clean / Minimal
+  SOLID = 'Studio Clean',
+  GRADIENT = 'Soft Gradient',
+
+  // Nature / Adventure (for off-road)
+  MOUNTAINS = 'Mountain Peaks',
+  FOREST = 'Nordic Forest',
+  DESERT = 'Desert Dunes',
+  TOPO = 'Topographic',
+
+  // Urban / Modern (for sports/luxury)
+  CITY = 'City Skyline',
+  NEON = 'Neon Night',
+  GARAGE = 'Studio Garage',
+}
+
+export enum VehicleCategory {
+  OFFROAD = 'Off-Road',
+  SPORTS = 'Sports',
+  LUXURY = 'Luxury',
+  CLASSIC = 'Classic',
+  EVERYDAY = 'Everyday',
+}
+
+// Fidelity options - how clean/authentic the car should look
+export enum FidelityMode {
+  EXACT_MATCH = 'Exact Match',      // As photographed - dirt, stickers, everything
+  CLEAN_BUILD = 'Clean Build',       // Keep mods/accessories, remove dirt/imperfections
+  FACTORY_FRESH = 'Factory Fresh',   // Remove all aftermarket - stock vehicle
+}
+
+// Position/Angle options - how the car is oriented
+export enum PositionMode {
+  AS_PHOTOGRAPHED = 'As Photographed',  // Keep exact angle from photo
+  SIDE_PROFILE = 'Side Profile',         // Convert to clean side profile
+}
+
+// Stance options - ONLY controls suspension height, NOT wheels
+export enum StanceStyle {
+  STOCK = 'Stock',      // Keep original suspension height
+  LIFTED = 'Lifted',    // Raise suspension 2-3 inches (keeps original wheels)
+  LOWERED = 'Lowered',  // Lower suspension 1-2 inches (keeps original wheels)
+}
+
+// ============================================================================
+// VEHICLE ANALYSIS
+// ============================================================================
+
+export interface PopularMod {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface PopularWheel {
+  name: string;
+  style: string;
+}
+
+// Wheel & Tire Audit - detailed inspection of wheels/tires
+export interface WheelAudit {
+  hasWhiteLettering: boolean;   // Does tire have white sidewall letters?
+  hasCenterCaps: boolean;       // Are center caps visible?
+  centerCapColor: string;       // Color of center caps (if visible)
+  wheelColor: string;           // Main wheel color
+  wheelFinish: string;          // matte, gloss, machined, polished
+  wheelType: string;            // stock OEM, aftermarket alloy, steel wheels
+}
+
+export interface VehicleAnalysis {
+  make: string;
+  model: string;
+  year: string;
+  color: string;
+  category: VehicleCategory;
+  isOffroad: boolean;
+  orientation: string;
+  facingDirection: string;
+  mods: string[];
+  installedAccessories: string[];  // All visible accessories: mudguards, roof rack, bike rack, ladder, etc.
+  geometryAudit: {
+    bodyShape: string;
+    windowLayout: string;
+    frontDetail: string;
+  };
+  wheelAudit?: WheelAudit;  // Detailed wheel/tire inspection
+  visualFeatures: {
+    roofGear: string;
+    wheelStyle: string;
+    distinctiveMarkings: string;
+  };
+  // AI-suggested based on Google Search
+  popularMods: PopularMod[];
+  popularWheels: PopularWheel[];  // Popular wheel upgrades for this model
+  suggestedStance: StanceStyle;
+  suggestedBackground: BackgroundTheme;
+}
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+// Every format the pipeline renders, in display order - sizes and labels live in api/_lib/catalog.ts
+export const ART_FORMAT_IDS = ['phone', 'desktop', 'print', 'print-square', 'print-poster'] as const;
+export type ArtFormat = typeof ART_FORMAT_IDS[number];
+
+// Purchasable tiers - prices and formats live in api/_lib/catalog.ts
+export const PRODUCT_TIER_IDS = ['phone', 'pack', 'print-pack'] as const;
+export type ProductTierId = typeof PRODUCT_TIER_IDS[number];
+
+// ============================================================================
+// FIDELITY AUDIT
+// ============================================================================
+
+// What a discrepancy between the artwork and the source photo is about
+export type FidelityRule =
+  | 'tire-lettering'    // White sidewall letters that don't match the wheel audit
+  | 'center-caps'       // Centre caps added, missing or the wrong colour
+  | 'invented-items'    // Cargo, bikes, people, text or logos not in the photo
+  | 'wheels'            // Wheel design, colour or finish
+  | 'accessories'       // Installed accessories missing or changed
+  | 'markings'          // Decals, stickers and badges
+  | 'other';
+
+export const FIDELITY_RULES: FidelityRule[] = [
+  'tire-lettering', 'center-caps', 'invented-items', 'wheels', 'accessories', 'markings', 'other'
+];
+
+export interface FidelityIssue {
+  rule: FidelityRule;
+  description: string;          // Short, customer-readable
+}
+
+export interface FidelityAudit {
+  issues: FidelityIssue[];      // Empty when the artwork is faithful
+}
+
+// ============================================================================
+// FIELD SCHEMA - checked against the types above by the compiler
+// ============================================================================
+
+export type FieldSchema =
+  | { type: 'string'; enum?: readonly string[] }
+  | { type: 'boolean' }
+  | { type: 'array'; items: FieldSchema }
+  | { type: 'object'; properties: Record<string, FieldSchema>; required?: readonly string[] };
+
+/**
+ * The schema shape for a TypeScript type: enum-typed strings must list their
+ * values, objects must describe every property (optional ones included)
+ */
+export type SchemaFor<T> =
+  [T] extends [boolean] ? { type: 'boolean' } :
+  [T] extends [string] ? (string extends T ? { type: 'string' } : { type: 'string'; enum: readonly T[] }) :
+  [T] extends [(infer U)[]] ? { type: 'array'; items: SchemaFor<U> } :
+  ObjectSchema<T>;
+
+export interface ObjectSchema<T> {
+  type: 'object';
+  properties: { [K in keyof T]-?: SchemaFor<NonNullable<T[K]>> };
+  required?: readonly (keyof T & string)[];
+}
+
+const values = <T extends string>(enumObject: Record<string, T>): T[] => Object.values(enumObject);
+
+const STRING = { type: 'string' } as const;
+const BOOLEAN = { type: 'boolean' } as const;
+const STRING_LIST = { type: 'array', items: STRING } as const;
+
+/**
+ * What analyze-vehicle returns - the Gemini response schema is generated
+ * from this, so the model can only answer with values the app knows
+ */
+export const VEHICLE_ANALYSIS_SCHEMA: ObjectSchema<VehicleAnalysis> = {
+  type: 'object',
+  properties: {
+    make: STRING,
+    model: STRING,
+    year: STRING,
+    color: STRING,
+    category: { type: 'string', enum: values(VehicleCategory) },
+    isOffroad: BOOLEAN,
+    orientation: STRING,
+    facingDirection: STRING,
+    mods: STRING_LIST,
+    installedAccessories: STRING_LIST,
+    geometryAudit: {
+      type: 'object',
+      properties: {
+        bodyShape: STRING,
+        windowLayout: STRING,
+        frontDetail: STRING,
+      },
+    },
+    wheelAudit: {
+      type: 'object',
+      properties: {
+        hasWhiteLettering: BOOLEAN,
+        hasCenterCaps: BOOLEAN,
+        centerCapColor: STRING,
+        wheelColor: STRING,
+        wheelFinish: STRING,
+        wheelType: STRING,
+      },
+    },
+    visualFeatures: {
+      type: 'object',
+      properties: {
+        roofGear: STRING,
+        wheelStyle: STRING,
+        distinctiveMarkings: STRING,
+      },
+    },
+    popularMods: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: STRING,
+          name: STRING,
+          description: STRING,
+        },
+        required: ['id', 'name', 'description'],
+      },
+    },
+    popularWheels: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: STRING,
+          style: STRING,
+        },
+        required: ['name', 'style'],
+      },
+    },
+    suggestedStance: { type: 'string', enum: values(StanceStyle) },
+    suggestedBackground: { type: 'string', enum: values(BackgroundTheme) },
+  },
+  required: ['make', 'model', 'year', 'color', 'category', 'isOffroad', 'orientation', 'facingDirection'],
+};
+
+/**
+ * What the fidelity audit returns - one entry per discrepancy found
+ */
+export const FIDELITY_AUDIT_SCHEMA: ObjectSchema<FidelityAudit> = {
+  type: 'object',
+  properties: {
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          rule: { type: 'string', enum: FIDELITY_RULES },
+          description: STRING,
+        },
+        required: ['rule', 'description'],
+      },
+    },
+  },
+  required: ['issues'],
+};